@@ -0,0 +1,152 @@
+// Headless cleanup keeper: polls the next cleanup batch and calls
+// cleanupExpiredOrders when the reward covers gas by the configured margin.
+//
+//   KEEPER_PRIVATE_KEY=0x... npm run keeper -- --rpc http://127.0.0.1:8545 \
+//     --contract 0x... --interval 60 --margin 20 [--dry-run] [--once]
+import { parseArgs } from "node:util";
+import { ethers } from "ethers";
+import OTCClient from "@/services/otcClient";
+import OTCSwapABI from "@/services/abi/OTCSwap.json";
+import { isCleanupProfitable } from "@/services/cleanup";
+import { getDeployment } from "@/deployments";
+import { describeError } from "@/services/errors";
+import { CleanupEstimate } from "@/types";
+
+const { values: options } = parseArgs({
+  options: {
+    rpc: {
+      type: "string",
+      default: process.env.KEEPER_RPC_URL ?? "http://127.0.0.1:8545",
+    },
+    // Defaults to the deployment registered for the RPC's chain
+    contract: { type: "string", default: process.env.KEEPER_CONTRACT },
+    // Seconds between checks
+    interval: { type: "string", default: "60" },
+    // Required profit over gas cost, in percent
+    margin: { type: "string", default: "20" },
+    "dry-run": { type: "boolean", default: false },
+    once: { type: "boolean", default: false },
+  },
+});
+
+// One JSON object per line, with bigints as decimal strings
+function log(event: string, fields: Record<string, unknown> = {}) {
+  console.log(
+    JSON.stringify(
+      { time: new Date().toISOString(), event, ...fields },
+      (_, value) => (typeof value === "bigint" ? value.toString() : value)
+    )
+  );
+}
+
+const summarize = (estimate: CleanupEstimate) => ({
+  firstOrderId: estimate.firstOrderId,
+  orderIds: estimate.orders.map((order) => order.orderId),
+  reward: estimate.reward,
+  gasLimit: estimate.gasLimit,
+  gasPrice: estimate.gasPrice,
+  gasCost: estimate.gasCost,
+  nextCleanableAt: estimate.nextCleanableAt,
+});
+
+async function tick(client: OTCClient, margin: number, dryRun: boolean) {
+  const estimate = await client.estimateCleanup();
+  const profitable = isCleanupProfitable(estimate, margin);
+  log("estimate", { ...summarize(estimate), profitable });
+  if (!profitable) return;
+
+  if (dryRun) {
+    log("dry-run", { orderIds: estimate.orders.map((order) => order.orderId) });
+    return;
+  }
+
+  const result = await client.cleanupExpiredOrders(({ hash }) =>
+    log("submitted", { hash })
+  );
+  log("cleaned", {
+    txHash: result.txHash,
+    cleaned: result.cleanedOrders.map((order) => order.orderId),
+    retried: result.retries.map((retry) => ({
+      orderId: retry.oldOrderId,
+      newOrderId: retry.newOrderId,
+      tries: retry.tries,
+    })),
+    errors: result.errors.map((error) => ({
+      orderId: error.orderId,
+      reason: error.reason,
+    })),
+    feesDistributed: result.feesDistributed.map((fee) => ({
+      recipient: fee.recipient,
+      amount: fee.amount,
+    })),
+  });
+}
+
+async function main() {
+  const privateKey = process.env.KEEPER_PRIVATE_KEY;
+  if (!privateKey) throw new Error("KEEPER_PRIVATE_KEY is not set");
+  const interval = Number(options.interval);
+  const margin = Number(options.margin);
+  if (!(interval > 0) || !Number.isFinite(margin)) {
+    throw new Error("--interval and --margin must be numbers");
+  }
+  const dryRun = options["dry-run"]!;
+
+  const provider = new ethers.JsonRpcProvider(options.rpc);
+  const { chainId } = await provider.getNetwork();
+  const deployment = getDeployment(Number(chainId));
+  const contract = options.contract ?? deployment?.contract;
+  if (!contract || !ethers.isAddress(contract)) {
+    throw new Error(
+      `No deployment for chain ${chainId}; pass --contract or set KEEPER_CONTRACT`
+    );
+  }
+
+  const wallet = new ethers.Wallet(privateKey, provider);
+  const client = new OTCClient(contract, OTCSwapABI.abi, provider, {
+    startBlock: options.contract ? undefined : deployment?.startBlock,
+  });
+  await client.connect(wallet);
+  log("started", {
+    rpc: options.rpc,
+    contract,
+    keeper: wallet.address,
+    chainId,
+    interval,
+    margin,
+    dryRun,
+  });
+
+  let stopped = false;
+  let wake: () => void = () => {};
+  const stop = () => {
+    stopped = true;
+    wake();
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  while (!stopped) {
+    try {
+      await tick(client, margin, dryRun);
+    } catch (error) {
+      log("error", { message: describeError(error) });
+    }
+    if (options.once) break;
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, interval * 1000);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  log("stopped");
+  provider.destroy();
+}
+
+main().catch((error) => {
+  log("fatal", { message: describeError(error) });
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+"use client";
+import { Suspense } from "react";
+import { useParams, useSearchParams } from "next/navigation";
+import { Box } from "@mui/material";
+import { ConnectButton } from "@rainbow-me/rainbowkit";
+import OrderDetail from "@/components/OrderDetail";
+
+function OrderView() {
+  const params = useParams<{ chainId: string; orderId: string }>();
+  const searchParams = useSearchParams();
+
+  return (
+    <OrderDetail
+      chainId={Number(params.chainId)}
+      orderId={Number(params.orderId)}
+      contract={searchParams.get("contract") ?? undefined}
+    />
+  );
+}
+
+export default function OrderPage() {
+  return (
+    <Box sx={{ display: "flex", flexDirection: "column", p: 3 }}>
+      <Box sx={{ position: "absolute", top: 16, right: 16 }}>
+        <ConnectButton />
+      </Box>
+      <Box sx={{ mt: 8 }}>
+        <Suspense>
+          <OrderView />
+        </Suspense>
+      </Box>
+    </Box>
+  );
+}
@@ -1,5 +1,5 @@
 "use client";
-import { useState, useEffect } from "react";
+import { Suspense, useState, useEffect, useMemo } from "react";
 import {
   Box,
   Paper,
@@ -11,22 +11,82 @@ import {
   Grid,
   CircularProgress,
   Alert,
+  MenuItem,
+  Link,
+  Badge,
+  ToggleButton,
+  ToggleButtonGroup,
 } from "@mui/material";
-import { ConnectButton } from "@rainbow-me/rainbowkit";
+import { ConnectButton, useConnectModal } from "@rainbow-me/rainbowkit";
 import { useOTC } from "@/contexts/OTCContext";
-import { Order, OrderParams, TokenDetails } from "@/types";
+import { useTransactions } from "@/contexts/TransactionContext";
+import { OrderParams, TokenDetails, TokenMetadata, TokenPair } from "@/types";
+import Orderbook from "@/components/Orderbook";
+import TokenAmount from "@/components/TokenAmount";
+import TokenSymbol from "@/components/TokenSymbol";
+import TokenListImportDialog from "@/components/TokenListImportDialog";
+import AllowanceManagerDialog from "@/components/AllowanceManagerDialog";
+import TransactionHistoryDialog from "@/components/TransactionHistoryDialog";
+import CreationFeePanel from "@/components/CreationFeePanel";
+import TransactionReviewDialog, {
+  TransactionReview,
+} from "@/components/TransactionReviewDialog";
+import TokenPickerDialog from "@/components/TokenPickerDialog";
+import ShareOrderDialog from "@/components/ShareOrderDialog";
+import MyOrders from "@/components/MyOrders";
+import CleanupPanel from "@/components/CleanupPanel";
+import BatchFillDialog from "@/components/BatchFillDialog";
+import UnsupportedNetwork from "@/components/UnsupportedNetwork";
+import PriceReference from "@/components/PriceReference";
+import OrderFilterBar from "@/components/OrderFilterBar";
+import { applyOrderFilters, paginate } from "@/services/orderFilters";
+import { useOrderFilters } from "@/hooks/useOrderFilters";
+import { useTokenMetadata } from "@/hooks/useTokenMetadata";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
+import { getBuyAmountForPrice, getTradedPairs } from "@/services/pricing";
+import { canCancel, canFill, getExpiryTime } from "@/services/orderStatus";
+import { useOrderStatus } from "@/hooks/useOrderStatus";
 import { ethers } from "ethers";
-import { useAccount } from "wagmi";
+import { useChainId } from "wagmi";
+import NextLink from "next/link";
 
-export default function Home() {
-  const { client, loading: clientLoading } = useOTC();
-  const { address } = useAccount();
-  const [orders, setOrders] = useState<Order[]>([]);
+// Orders rendered per infinite scroll step
+const ORDER_PAGE_SIZE = 20;
+
+function Home() {
+  const {
+    client,
+    deployment,
+    readOnly,
+    account,
+    loading: clientLoading,
+    orders,
+    ordersLoading,
+    ordersError,
+    recentlyAdded,
+    recentlyRemoved,
+    refreshOrders,
+  } = useOTC();
+  const { runTransaction, transactions } = useTransactions();
+  const address = account ?? undefined;
+  const { openConnectModal } = useConnectModal();
+  const chainId = useChainId();
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const [tabValue, setTabValue] = useState(0);
-  const [orderCreationFee, setOrderCreationFee] = useState<bigint>(BigInt(0));
+  const [tokenListDialogOpen, setTokenListDialogOpen] = useState(false);
+  const [allowanceDialogOpen, setAllowanceDialogOpen] = useState(false);
+  const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
+  const [batchFillOpen, setBatchFillOpen] = useState(false);
+  const [review, setReview] = useState<TransactionReview | null>(null);
+  const [tokenPickerSide, setTokenPickerSide] = useState<"sell" | "buy" | null>(
+    null
+  );
   const [buyAmountInput, setBuyAmountInput] = useState<string>("");
+  const [entryMode, setEntryMode] = useState<"amount" | "price">("amount");
+  const [priceInput, setPriceInput] = useState("");
+  const [priceInverted, setPriceInverted] = useState(false);
+  const [priceConfirmationRequired, setPriceConfirmationRequired] =
+    useState(false);
   const [sellAmountInput, setSellAmountInput] = useState<string>("");
   const [newOrder, setNewOrder] = useState<OrderParams>({
     sellToken: "",
@@ -41,48 +101,44 @@ export default function Home() {
   const [buyTokenDetails, setBuyTokenDetails] = useState<TokenDetails | null>(
     null
   );
+  const [selectedPair, setSelectedPair] = useState<TokenPair | null>(null);
+  const tradedPairs = useMemo(() => getTradedPairs(orders), [orders]);
+  const [filters, setFilters] = useOrderFilters();
+  const filterSellDecimals = useTokenMetadata(filters.sellToken)?.decimals;
+  const filterBuyDecimals = useTokenMetadata(filters.buyToken)?.decimals;
+  const [takerInput, setTakerInput] = useState("");
+  const [takerStatus, setTakerStatus] = useState<{
+    resolving: boolean;
+    error: string;
+  }>({ resolving: false, error: "" });
+  const [createdOrder, setCreatedOrder] = useState<{
+    orderId: number;
+    taker?: string;
+  } | null>(null);
   const [tokenError, setTokenError] = useState({ sell: "", buy: "" });
-  const [expiryInfo, setExpiryInfo] = useState<{
-    orderExpiry: number;
-    gracePeriod: number;
-  }>({
-    orderExpiry: 7 * 24 * 60 * 60,
-    gracePeriod: 7 * 24 * 60 * 60,
-  });
-
-  useEffect(() => {
-    loadOrders();
-    loadOrderCreationFee();
-    if (client) {
-      client.getOrderExpiryInfo().then(setExpiryInfo);
-    }
-  }, [client, address]);
-
-  const loadOrderCreationFee = async () => {
-    if (!client) return;
-    try {
-      const fee = await client.getOrderCreationFee().catch(() => BigInt(0));
-      setOrderCreationFee(fee);
-    } catch (err) {
-      console.error("Failed to load order creation fee:", err);
-      setOrderCreationFee(BigInt(0));
-    }
-  };
-
-  const loadOrders = async () => {
-    if (!client) return;
-    setLoading(true);
-    setError(null);
-    try {
-      const result = await client.getActiveOrders();
-      setOrders(result.orders);
-    } catch (err) {
-      console.error("Failed to load orders:", err);
-      setError("Failed to load orders");
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { timing, getStatus } = useOrderStatus();
+  const visibleOrders = useMemo(
+    () =>
+      applyOrderFilters(orders, filters, {
+        account: address,
+        timing,
+        sellDecimals: filterSellDecimals,
+        buyDecimals: filterBuyDecimals,
+      }),
+    [orders, filters, address, timing, filterSellDecimals, filterBuyDecimals]
+  );
+  // The subscription already holds the whole active book for live updates,
+  // so pages are cut from it with the same filter-sort-paginate steps that
+  // client.getActiveOrders uses, instead of re-querying the client per page
+  const { count: pageLimit, sentinelRef } = useInfiniteScroll(
+    visibleOrders.length,
+    ORDER_PAGE_SIZE,
+    filters
+  );
+  const { items: pageOrders, pagination } = useMemo(
+    () => paginate(visibleOrders, 0, pageLimit),
+    [visibleOrders, pageLimit]
+  );
 
   const validateAndGetTokenDetails = async (
     address: string,
@@ -112,13 +168,145 @@ export default function Home() {
     }
   };
 
+  const handleSelectToken = (token: TokenMetadata) => {
+    if (tokenPickerSide === "sell") {
+      setNewOrder((prev) => ({
+        ...prev,
+        sellToken: token.address,
+        sellAmount: parseTokenAmount(sellAmountInput, token.decimals),
+      }));
+      validateAndGetTokenDetails(token.address, "sell");
+    } else if (tokenPickerSide === "buy") {
+      setNewOrder((prev) => ({
+        ...prev,
+        buyToken: token.address,
+        buyAmount: parseTokenAmount(buyAmountInput, token.decimals),
+      }));
+      validateAndGetTokenDetails(token.address, "buy");
+    }
+  };
+
+  // Resolve the optional taker (address or ENS name) as the user types
+  useEffect(() => {
+    const input = takerInput.trim();
+    if (!input) {
+      setNewOrder((prev) => ({ ...prev, taker: undefined }));
+      setTakerStatus({ resolving: false, error: "" });
+      return;
+    }
+    if (!client) return;
+
+    let cancelled = false;
+    setTakerStatus({ resolving: true, error: "" });
+    client.resolveAddress(input).then((resolved) => {
+      if (cancelled) return;
+      setNewOrder((prev) => ({ ...prev, taker: resolved ?? undefined }));
+      setTakerStatus({
+        resolving: false,
+        error: resolved ? "" : "Enter a valid address or ENS name",
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, takerInput]);
+
+  // In limit price mode the buy amount follows the sell amount and price
+  useEffect(() => {
+    if (entryMode !== "price") return;
+    const buyAmount = getBuyAmountForPrice(
+      newOrder.sellAmount,
+      priceInput,
+      sellTokenDetails?.decimals ?? 18,
+      buyTokenDetails?.decimals ?? 18,
+      priceInverted
+    );
+    setNewOrder((prev) => ({ ...prev, buyAmount }));
+    setBuyAmountInput(
+      buyAmount > 0
+        ? ethers.formatUnits(buyAmount, buyTokenDetails?.decimals ?? 18)
+        : ""
+    );
+  }, [
+    entryMode,
+    priceInput,
+    priceInverted,
+    newOrder.sellAmount,
+    sellTokenDetails?.decimals,
+    buyTokenDetails?.decimals,
+  ]);
+
+  const sellSymbol = sellTokenDetails?.symbol ?? "sell token";
+  const buySymbol = buyTokenDetails?.symbol ?? "buy token";
+
+  // Keeps the same price, expressed in the other direction
+  const invertPrice = () => {
+    const price = Number(priceInput);
+    setPriceInput(
+      price > 0
+        ? (1 / price).toLocaleString("en-US", {
+            maximumSignificantDigits: 8,
+            useGrouping: false,
+          })
+        : priceInput
+    );
+    setPriceInverted((inverted) => !inverted);
+  };
+
+  // Visitors can browse without a wallet; actions ask them to connect first
+  const requireWallet = () => {
+    if (readOnly) openConnectModal?.();
+    return !readOnly;
+  };
+
+  // Every action is simulated and confirmed before anything is sent
+  const reviewCreateOrder = () => {
+    if (!client || !requireWallet()) return;
+    const order = newOrder;
+    setReview({
+      title: "Create order",
+      simulate: () => client.simulateCreateOrder(order),
+      onConfirm: handleCreateOrder,
+    });
+  };
+
+  const reviewFillOrder = (
+    orderId: number,
+    buyToken: string,
+    buyAmount: bigint
+  ) => {
+    if (!client || !requireWallet()) return;
+    setReview({
+      title: `Fill order #${orderId}`,
+      simulate: () =>
+        client.simulateFillOrder({ orderId, buyToken, buyAmount }),
+      onConfirm: () => handleFillOrder(orderId, buyToken, buyAmount),
+    });
+  };
+
+  const reviewCancelOrder = (orderId: number) => {
+    if (!client || !requireWallet()) return;
+    setReview({
+      title: `Cancel order #${orderId}`,
+      simulate: () => client.simulateCancelOrder(orderId),
+      onConfirm: () => handleCancelOrder(orderId),
+    });
+  };
+
   const handleCreateOrder = async () => {
     if (!client) return;
     setLoading(true);
-    setError(null);
     try {
-      await client.createOrder(newOrder);
-      await loadOrders();
+      const result = await runTransaction("Create order", (onTransaction) =>
+        client.createOrder(newOrder, onTransaction)
+      );
+      setCreatedOrder({
+        orderId: Number(result.orderId),
+        taker: newOrder.taker,
+      });
+      await refreshOrders();
+      setTakerInput("");
+      setPriceInput("");
       setNewOrder({
         sellToken: "",
         sellAmount: BigInt(0),
@@ -130,7 +318,6 @@ export default function Home() {
       setTabValue(0); // Switch to orders tab
     } catch (err) {
       console.error("Failed to create order:", err);
-      setError("Failed to create order");
     } finally {
       setLoading(false);
     }
@@ -143,13 +330,13 @@ export default function Home() {
   ) => {
     if (!client) return;
     setLoading(true);
-    setError(null);
     try {
-      await client.fillOrder({ orderId, buyToken, buyAmount });
-      await loadOrders();
+      await runTransaction(`Fill order #${orderId}`, (onTransaction) =>
+        client.fillOrder({ orderId, buyToken, buyAmount }, onTransaction)
+      );
+      await refreshOrders();
     } catch (err) {
       console.error("Failed to fill order:", err);
-      setError("Failed to fill order");
     } finally {
       setLoading(false);
     }
@@ -158,13 +345,13 @@ export default function Home() {
   const handleCancelOrder = async (orderId: number) => {
     if (!client) return;
     setLoading(true);
-    setError(null);
     try {
-      await client.cancelOrder(orderId);
-      await loadOrders();
+      await runTransaction(`Cancel order #${orderId}`, (onTransaction) =>
+        client.cancelOrder(orderId, onTransaction)
+      );
+      await refreshOrders();
     } catch (err) {
       console.error("Failed to cancel order:", err);
-      setError("Failed to cancel order");
     } finally {
       setLoading(false);
     }
@@ -201,13 +388,99 @@ export default function Home() {
     <Box
       sx={{ display: "flex", flexDirection: "column", height: "100vh", p: 3 }}
     >
-      <Box sx={{ position: "absolute", top: 16, right: 16 }}>
+      <TokenPickerDialog
+        open={tokenPickerSide !== null}
+        onClose={() => setTokenPickerSide(null)}
+        onSelect={handleSelectToken}
+        excludeAddress={
+          tokenPickerSide === "sell" ? newOrder.buyToken : newOrder.sellToken
+        }
+      />
+
+      {createdOrder && client && (
+        <ShareOrderDialog
+          open
+          onClose={() => setCreatedOrder(null)}
+          chainId={chainId}
+          contract={client.getContractAddress()}
+          orderId={createdOrder.orderId}
+          taker={createdOrder.taker}
+        />
+      )}
+
+      <TokenListImportDialog
+        open={tokenListDialogOpen}
+        onClose={() => setTokenListDialogOpen(false)}
+      />
+
+      <TransactionReviewDialog
+        review={review}
+        onClose={() => setReview(null)}
+      />
+
+      <TransactionHistoryDialog
+        open={historyDialogOpen}
+        onClose={() => setHistoryDialogOpen(false)}
+      />
+
+      {batchFillOpen && (
+        <BatchFillDialog
+          open
+          onClose={() => setBatchFillOpen(false)}
+          pair={selectedPair}
+        />
+      )}
+
+      <AllowanceManagerDialog
+        open={allowanceDialogOpen}
+        onClose={() => setAllowanceDialogOpen(false)}
+      />
+
+      <Box
+        sx={{
+          position: "absolute",
+          top: 16,
+          right: 16,
+          display: "flex",
+          alignItems: "center",
+        }}
+      >
+        <Button
+          variant="text"
+          sx={{ mr: 1 }}
+          onClick={() => setTokenListDialogOpen(true)}
+        >
+          Token lists
+        </Button>
+        <Button
+          variant="text"
+          sx={{ mr: 1 }}
+          onClick={() => setAllowanceDialogOpen(true)}
+        >
+          Approvals
+        </Button>
+        <Button
+          variant="text"
+          sx={{ mr: 1 }}
+          onClick={() => setHistoryDialogOpen(true)}
+        >
+          <Badge
+            color="warning"
+            badgeContent={
+              transactions.filter((tx) => tx.state === "pending").length
+            }
+          >
+            Activity
+          </Badge>
+        </Button>
         <ConnectButton />
       </Box>
 
-      {error && (
+      {!deployment && <UnsupportedNetwork />}
+
+      {ordersError && (
         <Alert severity="error" sx={{ mb: 2 }}>
-          {error}
+          {ordersError}
         </Alert>
       )}
 
@@ -218,92 +491,229 @@ export default function Home() {
         >
           <Tab label="Active Orders" />
           <Tab label="Create Order" />
+          <Tab label="My Orders" />
+          <Tab label="Cleanup" />
         </Tabs>
 
-        {loading && (
+        {(loading || ordersLoading) && (
           <Box sx={{ display: "flex", justifyContent: "center", mt: 3 }}>
             <CircularProgress />
           </Box>
         )}
 
-        {tabValue === 0 && !loading && (
+        {tabValue === 0 && !loading && !ordersLoading && (
           <Box sx={{ mt: 3 }}>
-            {orders.length > 0 ? (
+            <Box sx={{ display: "flex", gap: 1, mb: 2 }}>
+              <TextField
+                select
+                size="small"
+                label="Market"
+                sx={{ minWidth: 320 }}
+                value={
+                  selectedPair
+                    ? `${selectedPair.base}:${selectedPair.quote}`
+                    : ""
+                }
+                onChange={(e) => {
+                  const [base, quote] = e.target.value.split(":");
+                  setSelectedPair(base ? { base, quote } : null);
+                }}
+              >
+                <MenuItem value="">All orders</MenuItem>
+                {selectedPair &&
+                  !tradedPairs.some(
+                    (pair) =>
+                      pair.base === selectedPair.base &&
+                      pair.quote === selectedPair.quote
+                  ) && (
+                    <MenuItem
+                      value={`${selectedPair.base}:${selectedPair.quote}`}
+                    >
+                      <TokenSymbol address={selectedPair.base} /> /{" "}
+                      <TokenSymbol address={selectedPair.quote} />
+                    </MenuItem>
+                  )}
+                {tradedPairs.map((pair) => (
+                  <MenuItem
+                    key={`${pair.base}:${pair.quote}`}
+                    value={`${pair.base}:${pair.quote}`}
+                  >
+                    <TokenSymbol address={pair.base} /> /{" "}
+                    <TokenSymbol address={pair.quote} />
+                  </MenuItem>
+                ))}
+              </TextField>
+              {selectedPair && (
+                <Button
+                  variant="outlined"
+                  onClick={() =>
+                    setSelectedPair({
+                      base: selectedPair.quote,
+                      quote: selectedPair.base,
+                    })
+                  }
+                >
+                  Invert
+                </Button>
+              )}
+              <Button
+                variant="outlined"
+                sx={{ ml: "auto" }}
+                onClick={() => requireWallet() && setBatchFillOpen(true)}
+              >
+                {readOnly
+                  ? "Connect to Fill Up to Amount"
+                  : "Fill Up to Amount"}
+              </Button>
+            </Box>
+            {selectedPair ? (
+              <Orderbook
+                pair={selectedPair}
+                orders={orders}
+                account={address}
+                disabled={loading}
+                onFill={(order) =>
+                  reviewFillOrder(
+                    order.orderId,
+                    order.buy.token,
+                    BigInt(order.buy.amount)
+                  )
+                }
+              />
+            ) : orders.length > 0 || recentlyRemoved.length > 0 ? (
               <Grid container spacing={2}>
-                {orders.map((order) => (
-                  <Grid item xs={12} key={order.orderId}>
-                    <Paper sx={{ p: 2 }}>
+                <Grid item xs={12}>
+                  <OrderFilterBar
+                    filters={filters}
+                    onChange={setFilters}
+                    orders={orders}
+                    account={address}
+                  />
+                  {visibleOrders.length === 0 && (
+                    <Typography color="text.secondary">
+                      No orders match these filters
+                    </Typography>
+                  )}
+                </Grid>
+                {recentlyRemoved.map((order) => (
+                  <Grid item xs={12} key={`removed-${order.orderId}`}>
+                    <Paper sx={{ p: 2, opacity: 0.5 }}>
                       <Typography variant="subtitle2" color="text.secondary">
-                        Order #{order.orderId}
+                        Order #{order.orderId} — no longer available
+                      </Typography>
+                      <Typography>
+                        Sell:{" "}
+                        <TokenAmount
+                          token={order.sell.token}
+                          amount={order.sell.amount}
+                        />
+                      </Typography>
+                      <Typography>
+                        Buy:{" "}
+                        <TokenAmount
+                          token={order.buy.token}
+                          amount={order.buy.amount}
+                        />
                       </Typography>
-                      <Typography>Maker: {order.maker}</Typography>
-                      <Box sx={{ mt: 1 }}>
-                        <Typography>
-                          Sell: {formatTokenAmount(BigInt(order.sell.amount))}{" "}
-                          {order.sell.token}
-                        </Typography>
-                        <Typography>
-                          Buy: {formatTokenAmount(BigInt(order.buy.amount))}{" "}
-                          {order.buy.token}
-                        </Typography>
-                        <Typography variant="body2" color="text.secondary">
-                          Created:{" "}
-                          {new Date(order.createdAt * 1000).toLocaleString()}
-                        </Typography>
-                        <Typography variant="body2" color="text.secondary">
-                          Expires:{" "}
-                          {new Date(
-                            (order.createdAt + expiryInfo.orderExpiry) * 1000
-                          ).toLocaleString()}
-                        </Typography>
-                      </Box>
-                      <Box sx={{ mt: 2 }}>
-                        {address !== order.maker ? (
-                          <Button
-                            variant="contained"
-                            onClick={() =>
-                              handleFillOrder(
-                                order.orderId,
-                                order.buy.token,
-                                BigInt(order.buy.amount)
-                              )
-                            }
-                            disabled={
-                              loading ||
-                              Date.now() / 1000 >
-                                order.createdAt + expiryInfo.orderExpiry
-                            }
-                          >
-                            {Date.now() / 1000 >
-                            order.createdAt + expiryInfo.orderExpiry
-                              ? "Expired"
-                              : "Fill Order"}
-                          </Button>
-                        ) : (
-                          <Button
-                            variant="outlined"
-                            color="error"
-                            onClick={() => handleCancelOrder(order.orderId)}
-                            disabled={
-                              loading ||
-                              Date.now() / 1000 >
-                                order.createdAt +
-                                  expiryInfo.orderExpiry +
-                                  expiryInfo.gracePeriod
-                            }
-                          >
-                            {Date.now() / 1000 >
-                            order.createdAt +
-                              expiryInfo.orderExpiry +
-                              expiryInfo.gracePeriod
-                              ? "Grace Period Ended"
-                              : "Cancel Order"}
-                          </Button>
-                        )}
-                      </Box>
                     </Paper>
                   </Grid>
                 ))}
+                {pageOrders.map((order) => {
+                  // Listed orders were active when the book last updated
+                  const status = getStatus(order) ?? "Active";
+                  return (
+                    <Grid item xs={12} key={order.orderId}>
+                      <Paper
+                        sx={{
+                          p: 2,
+                          transition: "box-shadow 0.5s",
+                          boxShadow: recentlyAdded.includes(order.orderId)
+                            ? (theme) =>
+                                `0 0 0 2px ${theme.palette.success.main}`
+                            : undefined,
+                        }}
+                      >
+                        <Link
+                          component={NextLink}
+                          href={`/order/${chainId}/${order.orderId}`}
+                          variant="subtitle2"
+                          color="text.secondary"
+                        >
+                          Order #{order.orderId}
+                        </Link>
+                        <Typography>Maker: {order.maker}</Typography>
+                        <Box sx={{ mt: 1 }}>
+                          <Typography>
+                            Sell:{" "}
+                            <TokenAmount
+                              token={order.sell.token}
+                              amount={order.sell.amount}
+                            />
+                          </Typography>
+                          <Typography>
+                            Buy:{" "}
+                            <TokenAmount
+                              token={order.buy.token}
+                              amount={order.buy.amount}
+                            />
+                          </Typography>
+                          <Typography variant="body2" color="text.secondary">
+                            Created:{" "}
+                            {new Date(order.createdAt * 1000).toLocaleString()}
+                          </Typography>
+                          {timing && (
+                            <Typography variant="body2" color="text.secondary">
+                              Expires:{" "}
+                              {new Date(
+                                getExpiryTime(order, timing) * 1000
+                              ).toLocaleString()}
+                            </Typography>
+                          )}
+                        </Box>
+                        <Box sx={{ mt: 2 }}>
+                          {address !== order.maker ? (
+                            <Button
+                              variant="contained"
+                              onClick={() =>
+                                reviewFillOrder(
+                                  order.orderId,
+                                  order.buy.token,
+                                  BigInt(order.buy.amount)
+                                )
+                              }
+                              disabled={loading || !canFill(status)}
+                            >
+                              {!canFill(status)
+                                ? "Expired"
+                                : readOnly
+                                  ? "Connect to Fill"
+                                  : "Fill Order"}
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="outlined"
+                              color="error"
+                              onClick={() => reviewCancelOrder(order.orderId)}
+                              disabled={loading || !canCancel(status)}
+                            >
+                              {canCancel(status)
+                                ? "Cancel Order"
+                                : "Grace Period Ended"}
+                            </Button>
+                          )}
+                        </Box>
+                      </Paper>
+                    </Grid>
+                  );
+                })}
+                {pagination.hasMore && (
+                  <Grid item xs={12} ref={sentinelRef}>
+                    <Typography variant="body2" color="text.secondary">
+                      Showing {pagination.nextOffset} of {pagination.total}{" "}
+                      orders
+                    </Typography>
+                  </Grid>
+                )}
               </Grid>
             ) : (
               <Typography sx={{ mt: 2 }}>No active orders</Typography>
@@ -311,28 +721,32 @@ export default function Home() {
           </Box>
         )}
 
+        {tabValue === 2 && <MyOrders />}
+        {tabValue === 3 && <CleanupPanel />}
+
         {tabValue === 1 && !loading && (
           <Box sx={{ mt: 3 }}>
-            <Typography sx={{ mb: 2 }}>
-              Order Creation Fee:{" "}
-              {orderCreationFee > 0
-                ? `${formatTokenAmount(orderCreationFee)} ETH`
-                : "Not available"}
-            </Typography>
+            <CreationFeePanel />
             <Grid container spacing={2}>
               <Grid item xs={12}>
-                <TextField
+                <Button
                   fullWidth
-                  label="Sell Token Address"
-                  value={newOrder.sellToken}
-                  onChange={(e) => {
-                    const value = e.target.value;
-                    setNewOrder((prev) => ({ ...prev, sellToken: value }));
-                    validateAndGetTokenDetails(value, "sell");
-                  }}
-                  error={!!tokenError.sell}
-                  helperText={tokenError.sell}
-                />
+                  variant="outlined"
+                  color={tokenError.sell ? "error" : "primary"}
+                  sx={{ justifyContent: "flex-start", py: 1.5 }}
+                  onClick={() => setTokenPickerSide("sell")}
+                >
+                  {newOrder.sellToken ? (
+                    <TokenSymbol address={newOrder.sellToken} />
+                  ) : (
+                    "Select sell token"
+                  )}
+                </Button>
+                {tokenError.sell && (
+                  <Typography variant="caption" color="error">
+                    {tokenError.sell}
+                  </Typography>
+                )}
                 {sellTokenDetails && (
                   <Box sx={{ mt: 1, ml: 1 }}>
                     <Typography variant="body2">
@@ -367,18 +781,24 @@ export default function Home() {
                 />
               </Grid>
               <Grid item xs={12}>
-                <TextField
+                <Button
                   fullWidth
-                  label="Buy Token Address"
-                  value={newOrder.buyToken}
-                  onChange={(e) => {
-                    const value = e.target.value;
-                    setNewOrder((prev) => ({ ...prev, buyToken: value }));
-                    validateAndGetTokenDetails(value, "buy");
-                  }}
-                  error={!!tokenError.buy}
-                  helperText={tokenError.buy}
-                />
+                  variant="outlined"
+                  color={tokenError.buy ? "error" : "primary"}
+                  sx={{ justifyContent: "flex-start", py: 1.5 }}
+                  onClick={() => setTokenPickerSide("buy")}
+                >
+                  {newOrder.buyToken ? (
+                    <TokenSymbol address={newOrder.buyToken} />
+                  ) : (
+                    "Select buy token"
+                  )}
+                </Button>
+                {tokenError.buy && (
+                  <Typography variant="caption" color="error">
+                    {tokenError.buy}
+                  </Typography>
+                )}
                 {buyTokenDetails && (
                   <Box sx={{ mt: 1, ml: 1 }}>
                     <Typography variant="body2">
@@ -394,39 +814,105 @@ export default function Home() {
                   </Box>
                 )}
               </Grid>
+              <Grid item xs={12}>
+                <ToggleButtonGroup
+                  exclusive
+                  size="small"
+                  value={entryMode}
+                  onChange={(_, mode) => mode && setEntryMode(mode)}
+                >
+                  <ToggleButton value="amount">Buy amount</ToggleButton>
+                  <ToggleButton value="price">Limit price</ToggleButton>
+                </ToggleButtonGroup>
+              </Grid>
+              <Grid item xs={12}>
+                {entryMode === "amount" ? (
+                  <TextField
+                    fullWidth
+                    label="Buy Amount"
+                    type="string"
+                    value={buyAmountInput}
+                    onChange={(e) => {
+                      setBuyAmountInput(e.target.value);
+                      setNewOrder((prev) => ({
+                        ...prev,
+                        buyAmount: parseTokenAmount(
+                          e.target.value,
+                          buyTokenDetails?.decimals
+                        ),
+                      }));
+                    }}
+                  />
+                ) : (
+                  <>
+                    <Box sx={{ display: "flex", gap: 1 }}>
+                      <TextField
+                        fullWidth
+                        label={
+                          priceInverted
+                            ? `Price (${sellSymbol} per ${buySymbol})`
+                            : `Price (${buySymbol} per ${sellSymbol})`
+                        }
+                        value={priceInput}
+                        onChange={(e) => setPriceInput(e.target.value)}
+                      />
+                      <Button onClick={invertPrice}>Invert</Button>
+                    </Box>
+                    <Typography variant="body2" sx={{ mt: 1 }}>
+                      You receive: {buyAmountInput || "0"} {buySymbol}
+                    </Typography>
+                  </>
+                )}
+              </Grid>
+              {sellTokenDetails && buyTokenDetails && (
+                <Grid item xs={12}>
+                  <PriceReference
+                    sellToken={newOrder.sellToken}
+                    buyToken={newOrder.buyToken}
+                    sellDetails={sellTokenDetails}
+                    buyDetails={buyTokenDetails}
+                    sellAmount={newOrder.sellAmount}
+                    buyAmount={newOrder.buyAmount}
+                    onConfirmationRequired={setPriceConfirmationRequired}
+                  />
+                </Grid>
+              )}
               <Grid item xs={12}>
                 <TextField
                   fullWidth
-                  label="Buy Amount"
-                  type="string"
-                  value={buyAmountInput}
-                  onChange={(e) => {
-                    setBuyAmountInput(e.target.value);
-                    setNewOrder((prev) => ({
-                      ...prev,
-                      buyAmount: parseTokenAmount(
-                        e.target.value,
-                        buyTokenDetails?.decimals
-                      ),
-                    }));
-                  }}
+                  label="Taker (optional)"
+                  placeholder="Address or ENS name — leave empty to allow anyone"
+                  value={takerInput}
+                  onChange={(e) => setTakerInput(e.target.value)}
+                  error={!!takerStatus.error}
+                  helperText={
+                    takerStatus.error ||
+                    (takerStatus.resolving
+                      ? "Resolving…"
+                      : newOrder.taker && newOrder.taker !== takerInput.trim()
+                        ? `Resolves to ${newOrder.taker}`
+                        : "Only this address will be able to fill the order")
+                  }
                 />
               </Grid>
               <Grid item xs={12}>
                 <Button
                   variant="contained"
-                  onClick={handleCreateOrder}
+                  onClick={reviewCreateOrder}
                   disabled={
                     !client ||
                     !!tokenError.sell ||
                     !!tokenError.buy ||
+                    !!takerStatus.error ||
+                    takerStatus.resolving ||
+                    priceConfirmationRequired ||
                     !newOrder.sellToken ||
                     !newOrder.buyToken ||
                     newOrder.sellAmount <= 0 ||
                     newOrder.buyAmount <= 0
                   }
                 >
-                  Create Order
+                  {readOnly ? "Connect Wallet to Create" : "Create Order"}
                 </Button>
               </Grid>
             </Grid>
@@ -436,3 +922,12 @@ export default function Home() {
     </Box>
   );
 }
+
+// The Active Orders filters read the URL query
+export default function HomePage() {
+  return (
+    <Suspense>
+      <Home />
+    </Suspense>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+import { useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import { useOTC } from "@/contexts/OTCContext";
+import { useTransactions } from "@/contexts/TransactionContext";
+import TokenAmount from "@/components/TokenAmount";
+import TokenSymbol from "@/components/TokenSymbol";
+import { describeError } from "@/services/errors";
+import { ApprovalMode, TokenAllowance } from "@/types";
+
+interface AllowanceManagerDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function AllowanceManagerDialog({
+  open,
+  onClose,
+}: AllowanceManagerDialogProps) {
+  const { client, orders, account } = useOTC();
+  const { runTransaction } = useTransactions();
+  const [mode, setMode] = useState<ApprovalMode>("exact");
+  const [allowances, setAllowances] = useState<TokenAllowance[] | null>(null);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!open || !client) return;
+    setMode(client.allowances.getApprovalMode());
+    if (!account) return;
+    let cancelled = false;
+
+    setAllowances(null);
+    setError(null);
+    client.tokens
+      .listTokens()
+      .then((listed) =>
+        client.allowances.getAllowances(account, [
+          ...listed.map((token) => token.address),
+          ...orders.flatMap((order) => [order.sell.token, order.buy.token]),
+        ])
+      )
+      .then((result) => !cancelled && setAllowances(result))
+      .catch((err) => {
+        console.error("Failed to load allowances:", err);
+        if (!cancelled) setError("Failed to load approvals");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, client, account, orders, reloadKey]);
+
+  const handleModeChange = (value: ApprovalMode) => {
+    client?.allowances.setApprovalMode(value);
+    setMode(value);
+  };
+
+  const handleRevoke = async (token: string) => {
+    if (!client?.signer) return;
+    setRevoking(token);
+    setError(null);
+    try {
+      const signer = client.signer;
+      await runTransaction("Revoke approval", (onTransaction) =>
+        client.allowances.revoke(token, signer, onTransaction)
+      );
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      console.error("Failed to revoke approval:", err);
+      setError(`Failed to revoke approval: ${describeError(err)}`);
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Token approvals</DialogTitle>
+      <DialogContent>
+        <Typography variant="subtitle2">Approval amount</Typography>
+        <RadioGroup
+          value={mode}
+          onChange={(e) => handleModeChange(e.target.value as ApprovalMode)}
+        >
+          <FormControlLabel
+            value="exact"
+            control={<Radio />}
+            label="Exact — approve only what each order needs"
+          />
+          <FormControlLabel
+            value="unlimited"
+            control={<Radio />}
+            label="Unlimited — skip approvals on later trades of the same token"
+          />
+        </RadioGroup>
+
+        <Typography variant="subtitle2" sx={{ mt: 2 }}>
+          Approvals granted to the OTC contract
+        </Typography>
+        {error && (
+          <Alert severity="error" sx={{ mt: 1 }}>
+            {error}
+          </Alert>
+        )}
+        {!account ? (
+          <Typography variant="body2" color="text.secondary">
+            Connect your wallet to see your approvals.
+          </Typography>
+        ) : !allowances ? (
+          <Box sx={{ display: "flex", justifyContent: "center", mt: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : allowances.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No active approvals.
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Token</TableCell>
+                <TableCell>Allowance</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {allowances.map((allowance) => (
+                <TableRow key={allowance.token}>
+                  <TableCell>
+                    <TokenSymbol address={allowance.token} />
+                    {allowance.supportsPermit && (
+                      <Chip size="small" label="EIP-2612" sx={{ ml: 1 }} />
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {allowance.unlimited ? (
+                      "Unlimited"
+                    ) : (
+                      <TokenAmount
+                        token={allowance.token}
+                        amount={allowance.allowance}
+                        showLogo={false}
+                      />
+                    )}
+                  </TableCell>
+                  <TableCell align="right">
+                    <Button
+                      size="small"
+                      color="error"
+                      disabled={!client?.signer || !!revoking}
+                      onClick={() => handleRevoke(allowance.token)}
+                    >
+                      {revoking === allowance.token ? "Revoking..." : "Revoke"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,404 @@
+"use client";
+import { useMemo, useRef, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { ethers } from "ethers";
+import { useOTC } from "@/contexts/OTCContext";
+import { useTransactions } from "@/contexts/TransactionContext";
+import { useOrderStatus } from "@/hooks/useOrderStatus";
+import { useTokenMetadata } from "@/hooks/useTokenMetadata";
+import TokenAmount from "@/components/TokenAmount";
+import TokenSymbol from "@/components/TokenSymbol";
+import { planBatchFill } from "@/services/batchFill";
+import { canFill } from "@/services/orderStatus";
+import { describeError, toOTCError } from "@/services/errors";
+import { BatchFillPlan, OTCErrorCode, TokenPair } from "@/types";
+
+interface BatchFillDialogProps {
+  open: boolean;
+  onClose: () => void;
+  // Preselects receiving the base token and paying with the quote token
+  pair?: TokenPair | null;
+}
+
+type FillStepState =
+  "pending" | "filling" | "filled" | "taken" | "failed" | "skipped";
+
+const STEP_COLORS: Record<
+  FillStepState,
+  "default" | "info" | "success" | "warning" | "error"
+> = {
+  pending: "default",
+  filling: "info",
+  filled: "success",
+  taken: "warning",
+  failed: "error",
+  skipped: "default",
+};
+
+// Someone else got to the order between planning and filling
+const TAKEN_CODES: OTCErrorCode[] = [
+  "ORDER_NOT_ACTIVE",
+  "ORDER_NOT_FOUND",
+  "ORDER_MISMATCH",
+];
+
+const unique = (addresses: string[]) =>
+  Array.from(new Set(addresses.map((address) => address.toLowerCase())));
+
+const formatPrice = (price: number) =>
+  price.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+
+export default function BatchFillDialog({
+  open,
+  onClose,
+  pair,
+}: BatchFillDialogProps) {
+  const { client, orders, refreshOrders, account } = useOTC();
+  const { runTransaction } = useTransactions();
+  const { getStatus } = useOrderStatus();
+  const [receiveToken, setReceiveToken] = useState(
+    pair?.base.toLowerCase() ?? ""
+  );
+  const [payToken, setPayToken] = useState(pair?.quote.toLowerCase() ?? "");
+  const [targetInput, setTargetInput] = useState("");
+  // Frozen once the run starts, so refreshed orders don't reshuffle it
+  const [running, setRunning] = useState<BatchFillPlan | null>(null);
+  const [steps, setSteps] = useState<Record<number, FillStepState>>({});
+  const [paused, setPaused] = useState(false);
+  const [stopping, setStopping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stopRequested = useRef(false);
+  const resume = useRef<((proceed: boolean) => void) | null>(null);
+  const receiveDetails = useTokenMetadata(receiveToken);
+  const payDetails = useTokenMetadata(payToken);
+
+  const fillable = useMemo(
+    () =>
+      orders.filter((order) => {
+        const status = getStatus(order);
+        return status !== null && canFill(status);
+      }),
+    [orders, getStatus]
+  );
+  const receiveTokens = unique(fillable.map((order) => order.sell.token));
+  const payTokens = unique(
+    fillable
+      .filter((order) => order.sell.token.toLowerCase() === receiveToken)
+      .map((order) => order.buy.token)
+  );
+
+  let target = BigInt(0);
+  try {
+    if (receiveDetails && targetInput) {
+      target = ethers.parseUnits(targetInput, receiveDetails.decimals);
+    }
+  } catch {
+    // Left at zero until the input parses
+  }
+
+  const plan = useMemo(
+    () =>
+      receiveToken && payToken && receiveDetails && payDetails && target > 0
+        ? planBatchFill(
+            fillable,
+            receiveToken,
+            payToken,
+            target,
+            receiveDetails.decimals,
+            payDetails.decimals,
+            account ?? undefined
+          )
+        : null,
+    [
+      fillable,
+      receiveToken,
+      payToken,
+      receiveDetails,
+      payDetails,
+      target,
+      account,
+    ]
+  );
+  const shown = running ?? plan;
+  const inProgress =
+    running !== null &&
+    running.orders.some((order) =>
+      ["pending", "filling"].includes(steps[order.orderId])
+    );
+  const filledCount = Object.values(steps).filter(
+    (state) => state === "filled"
+  ).length;
+
+  const setStep = (orderId: number, state: FillStepState) =>
+    setSteps((prev) => ({ ...prev, [orderId]: state }));
+
+  const askToContinue = () =>
+    new Promise<boolean>((resolve) => {
+      setPaused(true);
+      resume.current = (proceed) => {
+        resume.current = null;
+        setPaused(false);
+        resolve(proceed);
+      };
+    });
+
+  const handleStart = async () => {
+    if (!client || !plan || plan.orders.length === 0) return;
+    const batch = plan;
+    setRunning(batch);
+    setSteps(
+      Object.fromEntries(
+        batch.orders.map((order) => [order.orderId, "pending"])
+      )
+    );
+    setError(null);
+    setStopping(false);
+    stopRequested.current = false;
+
+    try {
+      await runTransaction("Approve batch fill", (onTransaction) =>
+        client.approveBatchFill(payToken, batch.totalPay, onTransaction)
+      );
+
+      for (const [index, order] of batch.orders.entries()) {
+        if (stopRequested.current) {
+          setStep(order.orderId, "skipped");
+          continue;
+        }
+        setStep(order.orderId, "filling");
+        try {
+          await runTransaction(
+            `Fill order #${order.orderId}`,
+            (onTransaction) =>
+              client.fillOrder(
+                {
+                  orderId: order.orderId,
+                  buyToken: order.buy.token,
+                  buyAmount: BigInt(order.buy.amount),
+                },
+                onTransaction
+              )
+          );
+          setStep(order.orderId, "filled");
+        } catch (err) {
+          const { code } = toOTCError(err);
+          if (!TAKEN_CODES.includes(code)) {
+            setStep(order.orderId, "failed");
+            setError(describeError(err));
+            stopRequested.current = true;
+            continue;
+          }
+          setStep(order.orderId, "taken");
+          if (index < batch.orders.length - 1 && !(await askToContinue())) {
+            stopRequested.current = true;
+          }
+        }
+      }
+    } catch (err) {
+      console.error("Failed to approve batch fill:", err);
+      setError(describeError(err));
+      setSteps({});
+      setRunning(null);
+    } finally {
+      await refreshOrders();
+    }
+  };
+
+  const handleStop = () => {
+    stopRequested.current = true;
+    setStopping(true);
+    resume.current?.(false);
+  };
+
+  // The remaining fills would be lost mid-run, so closing waits for the stop
+  const handleClose = () => {
+    if (!inProgress) onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Fill up to amount</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: "flex", gap: 2, mt: 1, mb: 2 }}>
+          <TextField
+            select
+            size="small"
+            label="Receive"
+            value={receiveToken}
+            disabled={running !== null}
+            onChange={(e) => {
+              setReceiveToken(e.target.value);
+              setPayToken("");
+            }}
+            sx={{ minWidth: 160 }}
+          >
+            {receiveTokens.map((token) => (
+              <MenuItem key={token} value={token}>
+                <TokenSymbol address={token} />
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="Pay with"
+            value={payToken}
+            disabled={running !== null || !receiveToken}
+            onChange={(e) => setPayToken(e.target.value)}
+            sx={{ minWidth: 160 }}
+          >
+            {payTokens.map((token) => (
+              <MenuItem key={token} value={token}>
+                <TokenSymbol address={token} />
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            size="small"
+            label="Amount to receive"
+            value={targetInput}
+            disabled={running !== null}
+            onChange={(e) => setTargetInput(e.target.value)}
+          />
+        </Box>
+
+        {shown && shown.orders.length === 0 && (
+          <Typography>No fillable orders for this pair.</Typography>
+        )}
+
+        {shown && shown.orders.length > 0 && receiveDetails && payDetails && (
+          <>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Order</TableCell>
+                  <TableCell align="right">Receive</TableCell>
+                  <TableCell align="right">Pay</TableCell>
+                  {running && <TableCell align="right">Status</TableCell>}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {shown.orders.map((order) => (
+                  <TableRow key={order.orderId}>
+                    <TableCell>#{order.orderId}</TableCell>
+                    <TableCell align="right">
+                      <TokenAmount
+                        token={order.sell.token}
+                        amount={order.sell.amount}
+                      />
+                    </TableCell>
+                    <TableCell align="right">
+                      <TokenAmount
+                        token={order.buy.token}
+                        amount={order.buy.amount}
+                      />
+                    </TableCell>
+                    {running && (
+                      <TableCell align="right">
+                        <Chip
+                          size="small"
+                          label={steps[order.orderId] ?? "pending"}
+                          color={STEP_COLORS[steps[order.orderId] ?? "pending"]}
+                        />
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Box sx={{ mt: 2 }}>
+              <Typography>
+                Total: receive{" "}
+                <TokenAmount token={receiveToken} amount={shown.totalReceive} />{" "}
+                for <TokenAmount token={payToken} amount={shown.totalPay} />
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Average price: {formatPrice(shown.averagePrice)}{" "}
+                {payDetails.symbol} per {receiveDetails.symbol}
+              </Typography>
+              {shown.complete && shown.totalReceive > target && !running && (
+                <Typography variant="body2" color="text.secondary">
+                  Orders are filled whole, so the last order takes you past the
+                  requested amount.
+                </Typography>
+              )}
+            </Box>
+
+            {!shown.complete && !running && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                The order book only covers part of the requested amount.
+              </Alert>
+            )}
+          </>
+        )}
+
+        {paused && (
+          <Alert
+            severity="warning"
+            sx={{ mt: 2 }}
+            action={
+              <>
+                <Button color="inherit" onClick={() => resume.current?.(true)}>
+                  Continue
+                </Button>
+                <Button color="inherit" onClick={handleStop}>
+                  Stop
+                </Button>
+              </>
+            }
+          >
+            An order was taken by someone else before it could be filled.
+          </Alert>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {running && !inProgress && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            Filled {filledCount} of {running.orders.length} orders.
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {inProgress ? (
+          <Button onClick={handleStop} disabled={stopping}>
+            Stop
+          </Button>
+        ) : (
+          <Button onClick={handleClose}>Close</Button>
+        )}
+        {!running && (
+          <Button
+            variant="contained"
+            onClick={handleStart}
+            disabled={!plan || plan.orders.length === 0}
+          >
+            Approve and fill {plan?.orders.length ?? 0} orders
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,253 @@
+"use client";
+import { useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Link,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import NextLink from "next/link";
+import { useConnectModal } from "@rainbow-me/rainbowkit";
+import { useChainId } from "wagmi";
+import { useOTC } from "@/contexts/OTCContext";
+import { useTransactions } from "@/contexts/TransactionContext";
+import TransactionReviewDialog, {
+  TransactionReview,
+  formatNative,
+} from "@/components/TransactionReviewDialog";
+import { shortenAddress } from "@/components/TokenSymbol";
+import { formatTime } from "@/components/OrderDetail";
+import { describeError } from "@/services/errors";
+import { getNativeCurrency } from "@/deployments";
+import { CleanupEstimate, CleanupResult } from "@/types";
+
+export default function CleanupPanel() {
+  const { client, orders, refreshOrders, account } = useOTC();
+  const { runTransaction } = useTransactions();
+  const { openConnectModal } = useConnectModal();
+  const chainId = useChainId();
+  const symbol = getNativeCurrency(chainId);
+  const [estimate, setEstimate] = useState<CleanupEstimate | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cleaning, setCleaning] = useState(false);
+  const [result, setResult] = useState<CleanupResult | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [review, setReview] = useState<TransactionReview | null>(null);
+
+  useEffect(() => {
+    if (!client) return;
+    let cancelled = false;
+
+    setLoading(true);
+    client
+      .estimateCleanup()
+      .then((next) => {
+        if (cancelled) return;
+        setEstimate(next);
+        setError(null);
+      })
+      .catch((err) => {
+        console.error("Failed to estimate cleanup:", err);
+        if (!cancelled) setError("Failed to load the cleanup queue");
+      })
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, account, orders, reloadKey]);
+
+  const handleCleanup = async () => {
+    if (!client) return;
+    setCleaning(true);
+    setError(null);
+    try {
+      const cleanup = await runTransaction(
+        "Clean up expired orders",
+        (onTransaction) => client.cleanupExpiredOrders(onTransaction)
+      );
+      setResult(cleanup);
+      await refreshOrders();
+    } catch (err) {
+      console.error("Failed to clean up orders:", err);
+      setError(describeError(err));
+    } finally {
+      setCleaning(false);
+      setReloadKey((key) => key + 1);
+    }
+  };
+
+  const renderOrderLink = (orderId: bigint | number) => (
+    <Link component={NextLink} href={`/order/${chainId}/${orderId}`}>
+      #{orderId.toString()}
+    </Link>
+  );
+
+  if (!estimate) {
+    return error ? (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        {error}
+      </Alert>
+    ) : (
+      <Box sx={{ display: "flex", justifyContent: "center", mt: 3 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const net =
+    estimate.gasCost !== null ? estimate.reward - estimate.gasCost : null;
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <TransactionReviewDialog
+        review={review}
+        onClose={() => setReview(null)}
+      />
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Paper variant="outlined" sx={{ p: 2 }}>
+        <Typography variant="h6">Next cleanup batch</Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          Anyone can delete orders past their grace period and collect their
+          creation fees. Cleanup starts at order #{estimate.firstOrderId} and
+          stops at the first order that is not yet cleanable.
+        </Typography>
+        <Typography>Cleanable orders: {estimate.orders.length}</Typography>
+        <Typography>
+          Estimated reward: up to {formatNative(estimate.reward, symbol)}
+        </Typography>
+        <Typography>
+          Estimated gas cost:{" "}
+          {estimate.gasCost !== null
+            ? formatNative(estimate.gasCost, symbol)
+            : "Unavailable"}
+        </Typography>
+        {net !== null && (
+          <Typography color={net > 0 ? "success.main" : "error"}>
+            Net: {net < 0 ? "-" : ""}
+            {formatNative(net < 0 ? -net : net, symbol)}
+          </Typography>
+        )}
+        {estimate.orders.length === 0 && estimate.nextCleanableAt && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            Next order becomes cleanable at{" "}
+            {formatTime(estimate.nextCleanableAt)}
+          </Typography>
+        )}
+        {estimate.orders.some((order) => order.status === "Active") && (
+          <Alert severity="info" sx={{ mt: 1 }}>
+            Active orders return their tokens to the maker. If that fails the
+            order is retried as a new order and its fee is not paid out, so the
+            reward may be lower.
+          </Alert>
+        )}
+        <Box sx={{ display: "flex", gap: 1, mt: 2 }}>
+          <Button
+            variant="contained"
+            disabled={cleaning || estimate.orders.length === 0}
+            onClick={() =>
+              !account
+                ? openConnectModal?.()
+                : client &&
+                  setReview({
+                    title: "Clean up expired orders",
+                    simulate: () => client.simulateCleanupExpiredOrders(),
+                    onConfirm: handleCleanup,
+                  })
+            }
+          >
+            {cleaning
+              ? "Cleaning up..."
+              : account
+                ? "Clean up"
+                : "Connect to clean up"}
+          </Button>
+          <Button
+            onClick={() => setReloadKey((key) => key + 1)}
+            disabled={loading}
+          >
+            Refresh
+          </Button>
+        </Box>
+      </Paper>
+
+      {estimate.orders.length > 0 && (
+        <Table size="small" sx={{ mt: 2 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell>Order</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Maker</TableCell>
+              <TableCell>Created</TableCell>
+              <TableCell align="right">Fee</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {estimate.orders.map((order) => (
+              <TableRow key={order.orderId}>
+                <TableCell>{renderOrderLink(order.orderId)}</TableCell>
+                <TableCell>{order.status}</TableCell>
+                <TableCell>{shortenAddress(order.maker)}</TableCell>
+                <TableCell>{formatTime(order.timestamp)}</TableCell>
+                <TableCell align="right">
+                  {formatNative(order.orderCreationFee, symbol)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {result && (
+        <Paper variant="outlined" sx={{ p: 2, mt: 2 }}>
+          <Typography variant="h6">Last cleanup</Typography>
+          <Typography>
+            Cleaned up:{" "}
+            {result.cleanedOrders.length > 0
+              ? result.cleanedOrders.map((order, i) => (
+                  <span key={order.orderId.toString()}>
+                    {i > 0 && ", "}
+                    {renderOrderLink(order.orderId)}
+                  </span>
+                ))
+              : "none"}
+          </Typography>
+          {result.retries.map((retry) => (
+            <Typography key={retry.oldOrderId.toString()}>
+              Retried {renderOrderLink(retry.oldOrderId)} as{" "}
+              {renderOrderLink(retry.newOrderId)} (attempt {retry.tries})
+            </Typography>
+          ))}
+          {result.errors.map((cleanupError) => (
+            <Typography key={cleanupError.orderId.toString()} color="error">
+              Order {renderOrderLink(cleanupError.orderId)} failed:{" "}
+              {cleanupError.reason}
+            </Typography>
+          ))}
+          {result.feesDistributed.map((distribution) => (
+            <Typography
+              key={`${distribution.recipient}:${distribution.timestamp}`}
+            >
+              Paid {formatNative(distribution.amount, symbol)} to{" "}
+              {shortenAddress(distribution.recipient)}
+            </Typography>
+          ))}
+        </Paper>
+      )}
+    </Box>
+  );
+}
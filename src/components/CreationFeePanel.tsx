@@ -0,0 +1,136 @@
+"use client";
+import { useEffect, useState } from "react";
+import {
+  Box,
+  InputAdornment,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useChainId } from "wagmi";
+import { useOTC } from "@/contexts/OTCContext";
+import { formatTokenAmount } from "@/components/TokenAmount";
+import { formatTime } from "@/components/OrderDetail";
+import { getFeeQuote, getMaxFeeMargin } from "@/services/fees";
+import { getNativeCurrency } from "@/deployments";
+import { FeeHistoryEntry, FeeParameters } from "@/types";
+
+export default function CreationFeePanel() {
+  const { client, orders } = useOTC();
+  const [currentFee, setCurrentFee] = useState<bigint | null>(null);
+  const [params, setParams] = useState<FeeParameters | null>(null);
+  const [history, setHistory] = useState<FeeHistoryEntry[]>([]);
+  const [marginInput, setMarginInput] = useState("");
+  const symbol = getNativeCurrency(useChainId());
+  const formatFee = (fee: bigint | string) =>
+    `${formatTokenAmount(fee, 18)} ${symbol}`;
+
+  useEffect(() => {
+    if (!client) return;
+    setMarginInput(String(client.getFeeMargin()));
+  }, [client]);
+
+  // Orders change whenever a new order is created, which moves the fee
+  useEffect(() => {
+    if (!client) return;
+    let cancelled = false;
+
+    Promise.all([client.getFeeQuote(), client.getFeeParameters()])
+      .then(([feeQuote, feeParams]) => {
+        if (cancelled) return;
+        setCurrentFee(feeQuote.currentFee);
+        setParams(feeParams);
+      })
+      .catch((err) => {
+        console.error("Failed to load order creation fee:", err);
+        if (!cancelled) setCurrentFee(null);
+      });
+    client
+      .getFeeHistory()
+      .then((entries) => !cancelled && setHistory(entries))
+      .catch((err) => console.error("Failed to load fee history:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, orders]);
+
+  const handleMarginChange = (value: string) => {
+    setMarginInput(value);
+    const margin = Number(value);
+    if (!client || !params || value === "" || !Number.isFinite(margin)) return;
+    client.setFeeMargin(Math.min(Math.max(margin, 0), getMaxFeeMargin(params)));
+  };
+
+  if (currentFee === null || !params) {
+    return (
+      <Typography sx={{ mb: 2 }}>Order Creation Fee: Not available</Typography>
+    );
+  }
+
+  const quote = getFeeQuote(currentFee, params, Number(marginInput) || 0);
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+      <Typography>Order Creation Fee: {formatFee(quote.currentFee)}</Typography>
+      <Typography variant="body2" color="text.secondary">
+        Accepted range: {formatFee(quote.minFee)} – {formatFee(quote.maxFee)} (
+        {params.minFeePercentage}–{params.maxFeePercentage}% of the current fee)
+      </Typography>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2, mt: 1 }}>
+        <TextField
+          size="small"
+          type="number"
+          label="Safety margin"
+          value={marginInput}
+          onChange={(e) => handleMarginChange(e.target.value)}
+          inputProps={{ min: 0, max: getMaxFeeMargin(params), step: 1 }}
+          InputProps={{
+            endAdornment: <InputAdornment position="end">%</InputAdornment>,
+          }}
+          sx={{ width: 160 }}
+        />
+        <Typography variant="body2">
+          You will send {formatFee(quote.fee)}
+        </Typography>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+        The fee adjusts after every order. The margin keeps your order valid if
+        another order is mined first. If the fee still moves out of range, the
+        fee is read again and the order resent.
+      </Typography>
+
+      {history.length > 0 && (
+        <Table size="small" sx={{ mt: 2 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell>Order</TableCell>
+              <TableCell>Time</TableCell>
+              <TableCell align="right">Fee</TableCell>
+              <TableCell align="right">Change</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {history.map((entry) => (
+              <TableRow key={entry.orderId}>
+                <TableCell>#{entry.orderId}</TableCell>
+                <TableCell>{formatTime(entry.timestamp)}</TableCell>
+                <TableCell align="right">{formatFee(entry.fee)}</TableCell>
+                <TableCell align="right">
+                  {entry.change === null
+                    ? "—"
+                    : `${entry.change > 0 ? "+" : ""}${entry.change.toFixed(1)}%`}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,303 @@
+"use client";
+import { useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import NextLink from "next/link";
+import { useConnectModal } from "@rainbow-me/rainbowkit";
+import { ethers } from "ethers";
+import { useChainId } from "wagmi";
+import { useOTC } from "@/contexts/OTCContext";
+import { useTransactions } from "@/contexts/TransactionContext";
+import TokenAmount from "@/components/TokenAmount";
+import TransactionReviewDialog, {
+  TransactionReview,
+} from "@/components/TransactionReviewDialog";
+import ReplaceOrderDialog from "@/components/ReplaceOrderDialog";
+import { shortenAddress } from "@/components/TokenSymbol";
+import { formatTime } from "@/components/OrderDetail";
+import { ORDER_STATUS_LABELS, canCancel } from "@/services/orderStatus";
+import { useOrderStatus } from "@/hooks/useOrderStatus";
+import { describeError, toOTCError } from "@/services/errors";
+import { AccountOrders, IndexedOrder } from "@/types";
+
+export default function MyOrders() {
+  const { client, orders, refreshOrders, account } = useOTC();
+  const { runTransaction } = useTransactions();
+  const { openConnectModal } = useConnectModal();
+  const chainId = useChainId();
+  const [accountOrders, setAccountOrders] = useState<AccountOrders | null>(
+    null
+  );
+  const { getStatus } = useOrderStatus();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [canceling, setCanceling] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [review, setReview] = useState<TransactionReview | null>(null);
+  const [replacing, setReplacing] = useState<IndexedOrder | null>(null);
+
+  // Reload whenever the live order book changes
+  useEffect(() => {
+    if (!client || !account) return;
+    let cancelled = false;
+
+    setLoading(true);
+    client
+      .getAccountOrders(account)
+      .then((result) => {
+        if (cancelled) return;
+        setAccountOrders(result);
+        setError(null);
+      })
+      .catch((err) => {
+        console.error("Failed to load account orders:", err);
+        if (!cancelled) setError("Failed to load your orders");
+      })
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, account, orders, reloadKey]);
+
+  const cancelOrders = async (orderIds: number[]) => {
+    if (!client) return;
+    setError(null);
+    const failures: string[] = [];
+    for (const [i, orderId] of orderIds.entries()) {
+      setCanceling({ done: i, total: orderIds.length });
+      try {
+        await runTransaction(`Cancel order #${orderId}`, (onTransaction) =>
+          client.cancelOrder(orderId, onTransaction)
+        );
+      } catch (err) {
+        console.error(`Failed to cancel order ${orderId}:`, err);
+        // Rejecting one prompt stops the rest of the batch
+        if (toOTCError(err).code === "USER_REJECTED") break;
+        failures.push(`#${orderId}: ${describeError(err)}`);
+      }
+    }
+    setCanceling(null);
+    if (failures.length > 0) {
+      setError(`Failed to cancel ${failures.join("; ")}`);
+    }
+    await refreshOrders();
+    setReloadKey((key) => key + 1);
+  };
+
+  const renderOrderLink = (orderId: number) => (
+    <Link component={NextLink} href={`/order/${chainId}/${orderId}`}>
+      #{orderId}
+    </Link>
+  );
+
+  if (!account) {
+    return (
+      <Box sx={{ mt: 2 }}>
+        <Typography sx={{ mb: 1 }}>
+          Connect your wallet to see your orders.
+        </Typography>
+        <Button variant="contained" onClick={openConnectModal}>
+          Connect wallet
+        </Button>
+      </Box>
+    );
+  }
+
+  if (!accountOrders) {
+    return error ? (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        {error}
+      </Alert>
+    ) : (
+      <Box sx={{ display: "flex", justifyContent: "center", mt: 3 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const expiredOrders = accountOrders.made.filter(
+    (order) => getStatus(order) === "InGracePeriod"
+  );
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <TransactionReviewDialog
+        review={review}
+        onClose={() => setReview(null)}
+      />
+      {replacing && (
+        <ReplaceOrderDialog
+          order={replacing}
+          onClose={() => {
+            setReplacing(null);
+            setReloadKey((key) => key + 1);
+          }}
+        />
+      )}
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2, mb: 1 }}>
+        <Typography variant="h6">Orders you made</Typography>
+        {loading && <CircularProgress size={20} />}
+        <Box sx={{ flexGrow: 1 }} />
+        <Button
+          variant="outlined"
+          color="warning"
+          disabled={expiredOrders.length === 0 || !!canceling}
+          onClick={() =>
+            cancelOrders(expiredOrders.map((order) => order.orderId))
+          }
+        >
+          {canceling
+            ? `Canceling ${canceling.done + 1} of ${canceling.total}...`
+            : `Cancel all expired (${expiredOrders.length})`}
+        </Button>
+      </Box>
+      {accountOrders.made.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          You have not created any orders recently.
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Order</TableCell>
+              <TableCell>Sell</TableCell>
+              <TableCell>Buy</TableCell>
+              <TableCell>Taker</TableCell>
+              <TableCell>Created</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {accountOrders.made.map((order) => {
+              const status = getStatus(order);
+              return (
+                <TableRow key={order.orderId}>
+                  <TableCell>{renderOrderLink(order.orderId)}</TableCell>
+                  <TableCell>
+                    <TokenAmount
+                      token={order.sell.token}
+                      amount={order.sell.amount}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TokenAmount
+                      token={order.buy.token}
+                      amount={order.buy.amount}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {order.filled
+                      ? shortenAddress(order.filled.taker)
+                      : order.taker === ethers.ZeroAddress
+                        ? "Anyone"
+                        : shortenAddress(order.taker)}
+                  </TableCell>
+                  <TableCell>{formatTime(order.createdAt)}</TableCell>
+                  <TableCell>
+                    {status && (
+                      <Chip size="small" label={ORDER_STATUS_LABELS[status]} />
+                    )}
+                  </TableCell>
+                  <TableCell align="right">
+                    {status && canCancel(status) && (
+                      <Button
+                        size="small"
+                        disabled={!!canceling}
+                        onClick={() => setReplacing(order)}
+                      >
+                        Replace
+                      </Button>
+                    )}
+                    {status && canCancel(status) && (
+                      <Button
+                        size="small"
+                        color="error"
+                        disabled={!!canceling}
+                        onClick={() =>
+                          client &&
+                          setReview({
+                            title: `Cancel order #${order.orderId}`,
+                            simulate: () =>
+                              client.simulateCancelOrder(order.orderId),
+                            onConfirm: () => cancelOrders([order.orderId]),
+                          })
+                        }
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <Typography variant="h6" sx={{ mt: 3, mb: 1 }}>
+        Orders you filled
+      </Typography>
+      {accountOrders.filled.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          You have not filled any orders recently.
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Order</TableCell>
+              <TableCell>Paid</TableCell>
+              <TableCell>Received</TableCell>
+              <TableCell>Maker</TableCell>
+              <TableCell>Filled</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {accountOrders.filled.map((order) => (
+              <TableRow key={order.orderId}>
+                <TableCell>{renderOrderLink(order.orderId)}</TableCell>
+                <TableCell>
+                  <TokenAmount
+                    token={order.buy.token}
+                    amount={order.buy.amount}
+                  />
+                </TableCell>
+                <TableCell>
+                  <TokenAmount
+                    token={order.sell.token}
+                    amount={order.sell.amount}
+                  />
+                </TableCell>
+                <TableCell>{shortenAddress(order.maker)}</TableCell>
+                <TableCell>{formatTime(order.filled!.timestamp)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+}
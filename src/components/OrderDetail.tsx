@@ -0,0 +1,360 @@
+"use client";
+import { useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Link,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import NextLink from "next/link";
+import { useConnectModal } from "@rainbow-me/rainbowkit";
+import { ethers } from "ethers";
+import { useChainId, useSwitchChain } from "wagmi";
+import { useOTC } from "@/contexts/OTCContext";
+import { useTransactions } from "@/contexts/TransactionContext";
+import TokenAmount from "@/components/TokenAmount";
+import UnsupportedNetwork from "@/components/UnsupportedNetwork";
+import TransactionReviewDialog, {
+  TransactionReview,
+} from "@/components/TransactionReviewDialog";
+import { shortenAddress } from "@/components/TokenSymbol";
+import { getExplorerUrl } from "@/services/explorer";
+import { describeError } from "@/services/errors";
+import {
+  ORDER_STATUS_LABELS,
+  canFill,
+  getExpiryTime,
+  getGracePeriodEnd,
+} from "@/services/orderStatus";
+import { useOrderStatus } from "@/hooks/useOrderStatus";
+import { IndexedOrder, OrderHistory, OrderHistoryEntry } from "@/types";
+
+interface OrderDetailProps {
+  chainId: number;
+  orderId: number;
+  // Contract address from a shared link, checked against the configured one
+  contract?: string;
+}
+
+const EVENT_LABELS: Record<OrderHistoryEntry["name"], string> = {
+  OrderCreated: "Created",
+  OrderFilled: "Filled",
+  OrderCanceled: "Canceled",
+  OrderCleanedUp: "Cleaned up",
+  RetryOrder: "Retried",
+  CleanupError: "Cleanup failed",
+};
+
+export const formatTime = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleString();
+
+export default function OrderDetail({
+  chainId,
+  orderId,
+  contract,
+}: OrderDetailProps) {
+  const { client, deployment, refreshOrders, account } = useOTC();
+  const { runTransaction } = useTransactions();
+  const connectedChainId = useChainId();
+  const { switchChain } = useSwitchChain();
+  const { openConnectModal } = useConnectModal();
+  const { timing, getStatus } = useOrderStatus();
+  const [history, setHistory] = useState<OrderHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filling, setFilling] = useState(false);
+  const [fillError, setFillError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [review, setReview] = useState<TransactionReview | null>(null);
+  const wrongChain = connectedChainId !== chainId;
+  const wrongContract =
+    !!client &&
+    !!contract &&
+    contract.toLowerCase() !== client.getContractAddress().toLowerCase();
+
+  useEffect(() => {
+    if (!client || wrongChain || wrongContract || !Number.isInteger(orderId)) {
+      return;
+    }
+    let cancelled = false;
+
+    setLoading(true);
+    setError(null);
+    client
+      .getOrderHistory(orderId)
+      .then((result) => !cancelled && setHistory(result))
+      .catch((err) => {
+        console.error("Failed to load order:", err);
+        if (!cancelled) setError("Failed to load order");
+      })
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, orderId, wrongChain, wrongContract, reloadKey]);
+
+  const handleFill = async (order: IndexedOrder) => {
+    if (!client) return;
+    setFilling(true);
+    setFillError(null);
+    try {
+      await runTransaction(`Fill order #${order.orderId}`, (onTransaction) =>
+        client.fillOrder(
+          {
+            orderId: order.orderId,
+            buyToken: order.buy.token,
+            buyAmount: BigInt(order.buy.amount),
+          },
+          onTransaction
+        )
+      );
+      await refreshOrders();
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      console.error("Failed to fill order:", err);
+      setFillError(describeError(err));
+    } finally {
+      setFilling(false);
+    }
+  };
+
+  const renderTx = (hash: string) => {
+    const url = getExplorerUrl(chainId, "tx", hash);
+    return url ? (
+      <Link href={url} target="_blank" rel="noopener noreferrer">
+        {shortenAddress(hash)}
+      </Link>
+    ) : (
+      shortenAddress(hash)
+    );
+  };
+
+  const renderAddress = (address: string) => {
+    const url = getExplorerUrl(chainId, "address", address);
+    return url ? (
+      <Link href={url} target="_blank" rel="noopener noreferrer">
+        {address}
+      </Link>
+    ) : (
+      address
+    );
+  };
+
+  if (!Number.isInteger(orderId)) {
+    return <Alert severity="error">Invalid order ID</Alert>;
+  }
+
+  if (wrongChain) {
+    return (
+      <Alert
+        severity="warning"
+        action={
+          <Button color="inherit" onClick={() => switchChain({ chainId })}>
+            Switch network
+          </Button>
+        }
+      >
+        Order #{orderId} is on chain {chainId}. Switch your wallet to view it.
+      </Alert>
+    );
+  }
+
+  if (!deployment) return <UnsupportedNetwork />;
+
+  if (wrongContract) {
+    return (
+      <Alert severity="error">
+        This link points to contract {contract}, which is not the OTC contract
+        configured for chain {chainId}. Do not fill orders from links you do not
+        trust.
+      </Alert>
+    );
+  }
+
+  if (loading || !history || !timing) {
+    return error ? (
+      <Alert severity="error">{error}</Alert>
+    ) : (
+      <Box sx={{ display: "flex", justifyContent: "center", mt: 3 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const { order } = history;
+  const status = order && getStatus(order);
+  const isPrivate = !!order && order.taker !== ethers.ZeroAddress;
+  const isTaker =
+    !!account &&
+    !!order &&
+    (!isPrivate || order.taker.toLowerCase() === account.toLowerCase());
+  const isMaker =
+    !!account && !!order && order.maker.toLowerCase() === account.toLowerCase();
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <TransactionReviewDialog
+        review={review}
+        onClose={() => setReview(null)}
+      />
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2, mb: 2 }}>
+        <Typography variant="h5">Order #{orderId}</Typography>
+        {order && status && (
+          <Chip
+            label={
+              status === "Retried"
+                ? `Retried as #${order.retriedAs}`
+                : ORDER_STATUS_LABELS[status]
+            }
+          />
+        )}
+        <Box sx={{ flexGrow: 1 }} />
+        <Button component={NextLink} href="/">
+          Back to orders
+        </Button>
+      </Box>
+
+      {!order ? (
+        <Alert severity="info">
+          No creation event found for this order in the indexed history.
+        </Alert>
+      ) : (
+        <Box sx={{ display: "grid", gap: 1 }}>
+          <Typography>
+            Sell:{" "}
+            <TokenAmount token={order.sell.token} amount={order.sell.amount} />
+          </Typography>
+          <Typography>
+            Buy:{" "}
+            <TokenAmount token={order.buy.token} amount={order.buy.amount} />
+          </Typography>
+          <Typography>Maker: {renderAddress(order.maker)}</Typography>
+          <Typography>
+            Taker:{" "}
+            {order.taker === ethers.ZeroAddress
+              ? "Anyone"
+              : renderAddress(order.taker)}
+          </Typography>
+          {order.filled && (
+            <Typography>
+              Filled by: {renderAddress(order.filled.taker)}
+            </Typography>
+          )}
+          <Typography variant="body2" color="text.secondary">
+            Created: {formatTime(order.createdAt)}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Expires: {formatTime(getExpiryTime(order, timing))}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Grace period ends: {formatTime(getGracePeriodEnd(order, timing))}
+          </Typography>
+          {status && canFill(status) && (
+            <Box sx={{ mt: 2 }}>
+              {!account ? (
+                <Alert
+                  severity="info"
+                  action={
+                    <Button color="inherit" onClick={openConnectModal}>
+                      Connect
+                    </Button>
+                  }
+                >
+                  Connect your wallet to fill this order.
+                </Alert>
+              ) : isMaker ? (
+                <Alert severity="info">This is your own order.</Alert>
+              ) : isPrivate && !isTaker ? (
+                <Alert severity="warning">
+                  This order can only be filled by {order.taker}. Switch to that
+                  account in your wallet to fill it.
+                </Alert>
+              ) : (
+                <Button
+                  variant="contained"
+                  onClick={() =>
+                    client &&
+                    setReview({
+                      title: `Fill order #${order.orderId}`,
+                      simulate: () =>
+                        client.simulateFillOrder({
+                          orderId: order.orderId,
+                          buyToken: order.buy.token,
+                          buyAmount: BigInt(order.buy.amount),
+                        }),
+                      onConfirm: () => handleFill(order),
+                    })
+                  }
+                  disabled={filling}
+                >
+                  {filling ? "Filling..." : "Fill order"}
+                </Button>
+              )}
+              {fillError && (
+                <Alert severity="error" sx={{ mt: 1 }}>
+                  {fillError}
+                </Alert>
+              )}
+            </Box>
+          )}
+          {history.orderIds.length > 1 && (
+            <Typography variant="body2" color="text.secondary">
+              Order IDs:{" "}
+              {history.orderIds.map((id, i) => (
+                <span key={id}>
+                  {i > 0 && " → "}
+                  <Link component={NextLink} href={`/order/${chainId}/${id}`}>
+                    #{id}
+                  </Link>
+                </span>
+              ))}
+            </Typography>
+          )}
+        </Box>
+      )}
+
+      <Typography variant="h6" sx={{ mt: 3, mb: 1 }}>
+        History
+      </Typography>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Event</TableCell>
+            <TableCell>Order</TableCell>
+            <TableCell>Time</TableCell>
+            <TableCell>Details</TableCell>
+            <TableCell>Transaction</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {history.entries.map((entry) => (
+            <TableRow key={`${entry.transactionHash}:${entry.logIndex}`}>
+              <TableCell>{EVENT_LABELS[entry.name]}</TableCell>
+              <TableCell>#{entry.orderId}</TableCell>
+              <TableCell>{formatTime(entry.timestamp)}</TableCell>
+              <TableCell>
+                {entry.name === "OrderFilled" &&
+                  entry.taker &&
+                  `Taker ${shortenAddress(entry.taker)}`}
+                {entry.name === "RetryOrder" &&
+                  `New ID #${entry.newOrderId}, attempt ${entry.tries}`}
+                {entry.name === "CleanupError" && entry.reason}
+              </TableCell>
+              <TableCell>{renderTx(entry.transactionHash)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+}
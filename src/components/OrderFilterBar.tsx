@@ -0,0 +1,234 @@
+"use client";
+import { useEffect, useMemo, useState } from "react";
+import { Box, Button, MenuItem, TextField } from "@mui/material";
+import { ethers } from "ethers";
+import TokenSymbol from "@/components/TokenSymbol";
+import { DEFAULT_ORDER_FILTERS } from "@/services/orderFilters";
+import { Order, OrderAccess, OrderFilters, OrderSort } from "@/types";
+
+interface OrderFilterBarProps {
+  filters: OrderFilters;
+  onChange: (filters: OrderFilters) => void;
+  // Orders whose tokens populate the token selects
+  orders: Order[];
+  account?: string;
+}
+
+const ACCESS_LABELS: Record<OrderAccess, string> = {
+  any: "All orders",
+  public: "Open to anyone",
+  mine: "Restricted to me",
+};
+
+const SORT_LABELS: Record<OrderSort, string> = {
+  age: "Newest",
+  expiry: "Expiring soonest",
+  price: "Best price",
+  size: "Largest",
+};
+
+const EXPIRY_OPTIONS = [
+  { label: "Any time", value: 0 },
+  { label: "1 hour", value: 60 * 60 },
+  { label: "24 hours", value: 24 * 60 * 60 },
+  { label: "3 days", value: 3 * 24 * 60 * 60 },
+];
+
+// Label for an ?expires= value from a hand-edited link that matches no option
+function formatDuration(seconds: number) {
+  if (seconds % 86400 === 0) return `${seconds / 86400} days`;
+  if (seconds % 3600 === 0) return `${seconds / 3600} hours`;
+  return `${Math.ceil(seconds / 60)} minutes`;
+}
+
+// What each text input stands for in the filters; null clears the filter and
+// undefined means the text is incomplete and leaves the filter as it was
+const toMaker = (value: string) =>
+  !value
+    ? null
+    : ethers.isAddress(value)
+      ? ethers.getAddress(value)
+      : undefined;
+const toMinSize = (value: string) => (Number(value) > 0 ? value : null);
+
+function uniqueTokens(tokens: string[], selected: string | null) {
+  const seen = new Map<string, string>();
+  for (const token of selected ? [selected, ...tokens] : tokens) {
+    if (!seen.has(token.toLowerCase())) seen.set(token.toLowerCase(), token);
+  }
+  return [...seen.values()];
+}
+
+export default function OrderFilterBar({
+  filters,
+  onChange,
+  orders,
+  account,
+}: OrderFilterBarProps) {
+  const [makerInput, setMakerInput] = useState(filters.maker ?? "");
+  const [minSizeInput, setMinSizeInput] = useState(filters.minSize ?? "");
+
+  // The inputs own their text while typing, e.g. "0." clears the min size
+  // filter but stays in the box. The URL only replaces the text when it
+  // changes to something else, as on back/forward navigation.
+  useEffect(
+    () =>
+      setMakerInput((input) =>
+        toMaker(input) === filters.maker ? input : (filters.maker ?? "")
+      ),
+    [filters.maker]
+  );
+  useEffect(
+    () =>
+      setMinSizeInput((input) =>
+        toMinSize(input) === filters.minSize ? input : (filters.minSize ?? "")
+      ),
+    [filters.minSize]
+  );
+
+  const sellTokens = useMemo(
+    () =>
+      uniqueTokens(
+        orders.map((order) => order.sell.token),
+        filters.sellToken
+      ),
+    [orders, filters.sellToken]
+  );
+  const buyTokens = useMemo(
+    () =>
+      uniqueTokens(
+        orders.map((order) => order.buy.token),
+        filters.buyToken
+      ),
+    [orders, filters.buyToken]
+  );
+
+  const update = (changes: Partial<OrderFilters>) =>
+    onChange({ ...filters, ...changes });
+
+  const makerError = !!makerInput && !ethers.isAddress(makerInput);
+
+  return (
+    <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, mb: 2 }}>
+      <TextField
+        select
+        size="small"
+        label="Sell token"
+        sx={{ minWidth: 140 }}
+        value={filters.sellToken ?? ""}
+        onChange={(e) => update({ sellToken: e.target.value || null })}
+      >
+        <MenuItem value="">Any</MenuItem>
+        {sellTokens.map((token) => (
+          <MenuItem key={token} value={token}>
+            <TokenSymbol address={token} />
+          </MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        select
+        size="small"
+        label="Buy token"
+        sx={{ minWidth: 140 }}
+        value={filters.buyToken ?? ""}
+        onChange={(e) => update({ buyToken: e.target.value || null })}
+      >
+        <MenuItem value="">Any</MenuItem>
+        {buyTokens.map((token) => (
+          <MenuItem key={token} value={token}>
+            <TokenSymbol address={token} />
+          </MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        size="small"
+        label="Maker"
+        placeholder="0x…"
+        value={makerInput}
+        error={makerError}
+        onChange={(e) => {
+          const value = e.target.value.trim();
+          const maker = toMaker(value);
+          setMakerInput(value);
+          if (maker !== undefined) update({ maker });
+        }}
+      />
+      <TextField
+        select
+        size="small"
+        label="Taker"
+        sx={{ minWidth: 160 }}
+        value={filters.access}
+        onChange={(e) => update({ access: e.target.value as OrderAccess })}
+      >
+        {(Object.keys(ACCESS_LABELS) as OrderAccess[]).map((access) => (
+          <MenuItem
+            key={access}
+            value={access}
+            disabled={access === "mine" && !account}
+          >
+            {ACCESS_LABELS[access]}
+          </MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        size="small"
+        label="Min sell amount"
+        sx={{ width: 150 }}
+        value={minSizeInput}
+        disabled={!filters.sellToken}
+        helperText={!filters.sellToken ? "Pick a sell token" : undefined}
+        onChange={(e) => {
+          setMinSizeInput(e.target.value);
+          update({ minSize: toMinSize(e.target.value) });
+        }}
+      />
+      <TextField
+        select
+        size="small"
+        label="Expires within"
+        sx={{ minWidth: 140 }}
+        value={filters.expiresWithin ?? 0}
+        onChange={(e) =>
+          update({ expiresWithin: Number(e.target.value) || null })
+        }
+      >
+        {filters.expiresWithin &&
+          !EXPIRY_OPTIONS.some(
+            (option) => option.value === filters.expiresWithin
+          ) && (
+            <MenuItem value={filters.expiresWithin}>
+              {formatDuration(filters.expiresWithin)}
+            </MenuItem>
+          )}
+        {EXPIRY_OPTIONS.map((option) => (
+          <MenuItem key={option.value} value={option.value}>
+            {option.label}
+          </MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        select
+        size="small"
+        label="Sort by"
+        sx={{ minWidth: 160 }}
+        value={filters.sort}
+        onChange={(e) => update({ sort: e.target.value as OrderSort })}
+      >
+        {(Object.keys(SORT_LABELS) as OrderSort[]).map((sort) => (
+          <MenuItem
+            key={sort}
+            value={sort}
+            disabled={
+              (sort === "price" && (!filters.sellToken || !filters.buyToken)) ||
+              (sort === "size" && !filters.sellToken)
+            }
+          >
+            {SORT_LABELS[sort]}
+          </MenuItem>
+        ))}
+      </TextField>
+      <Button onClick={() => onChange(DEFAULT_ORDER_FILTERS)}>Clear</Button>
+    </Box>
+  );
+}
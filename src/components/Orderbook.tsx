@@ -0,0 +1,127 @@
+"use client";
+import { useMemo } from "react";
+import {
+  Box,
+  Button,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import { useTokenMetadata } from "@/hooks/useTokenMetadata";
+import { formatTokenAmount } from "@/components/TokenAmount";
+import { buildOrderBook } from "@/services/pricing";
+import { Order, OrderBookLevel, TokenPair } from "@/types";
+
+interface OrderbookProps {
+  pair: TokenPair;
+  orders: Order[];
+  account?: string;
+  disabled?: boolean;
+  onFill: (order: Order) => void;
+}
+
+function formatPrice(price: number) {
+  return price.toLocaleString(undefined, { maximumSignificantDigits: 8 });
+}
+
+export default function Orderbook({
+  pair,
+  orders,
+  account,
+  disabled,
+  onFill,
+}: OrderbookProps) {
+  const base = useTokenMetadata(pair.base);
+  const quote = useTokenMetadata(pair.quote);
+
+  const book = useMemo(() => {
+    if (!base || !quote) return null;
+    return buildOrderBook(orders, pair, base.decimals, quote.decimals);
+  }, [orders, pair, base, quote]);
+
+  if (!book || !base || !quote) {
+    return <Typography sx={{ mt: 2 }}>Loading order book...</Typography>;
+  }
+
+  const renderSide = (
+    title: string,
+    levels: OrderBookLevel[],
+    color: "success" | "error"
+  ) => (
+    <Box>
+      <Typography variant="subtitle1" color={`${color}.main`} sx={{ mb: 1 }}>
+        {title}
+      </Typography>
+      {levels.length > 0 ? (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Price ({quote.symbol})</TableCell>
+              <TableCell align="right">Amount ({base.symbol})</TableCell>
+              <TableCell align="right">Total ({quote.symbol})</TableCell>
+              <TableCell align="right">Depth ({base.symbol})</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {levels.map((level) => {
+              const isOwn =
+                !!account &&
+                level.order.maker.toLowerCase() === account.toLowerCase();
+              return (
+                <TableRow
+                  key={level.order.orderId}
+                  hover={!isOwn}
+                  sx={{ cursor: isOwn || disabled ? "default" : "pointer" }}
+                  onClick={() => !isOwn && !disabled && onFill(level.order)}
+                >
+                  <TableCell sx={{ color: `${color}.main` }}>
+                    {formatPrice(level.price)}
+                  </TableCell>
+                  <TableCell align="right">
+                    {formatTokenAmount(level.baseAmount, base.decimals)}
+                  </TableCell>
+                  <TableCell align="right">
+                    {formatTokenAmount(level.quoteAmount, quote.decimals)}
+                  </TableCell>
+                  <TableCell align="right">
+                    {formatTokenAmount(level.cumulativeBase, base.decimals)}
+                  </TableCell>
+                  <TableCell align="right">
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      color={color}
+                      disabled={isOwn || disabled}
+                    >
+                      {isOwn ? "Yours" : level.side === "ask" ? "Buy" : "Sell"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      ) : (
+        <Typography variant="body2" color="text.secondary">
+          No orders
+        </Typography>
+      )}
+    </Box>
+  );
+
+  return (
+    <Grid container spacing={3}>
+      <Grid item xs={12} md={6}>
+        {renderSide(`Bids — buying ${base.symbol}`, book.bids, "success")}
+      </Grid>
+      <Grid item xs={12} md={6}>
+        {renderSide(`Asks — selling ${base.symbol}`, book.asks, "error")}
+      </Grid>
+    </Grid>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+import { useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  MenuItem,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { usePriceSources } from "@/hooks/usePriceSources";
+import {
+  PRICE_DEVIATION_WARNING,
+  getPrice,
+  getPriceDeviation,
+} from "@/services/pricing";
+import { TokenDetails } from "@/types";
+
+interface PriceReferenceProps {
+  sellToken: string;
+  buyToken: string;
+  sellDetails: TokenDetails;
+  buyDetails: TokenDetails;
+  sellAmount: bigint;
+  buyAmount: bigint;
+  // Called with true while a large deviation has not been acknowledged
+  onConfirmationRequired: (required: boolean) => void;
+}
+
+const formatPrice = (price: number) =>
+  price.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+
+// Compares the order's implied price with a reference price
+export default function PriceReference({
+  sellToken,
+  buyToken,
+  sellDetails,
+  buyDetails,
+  sellAmount,
+  buyAmount,
+  onConfirmationRequired,
+}: PriceReferenceProps) {
+  const { manual, sources } = usePriceSources();
+  const [sourceId, setSourceId] = useState(sources[0].id);
+  const [reference, setReference] = useState<number | null>(null);
+  const [manualInput, setManualInput] = useState("");
+  const [reloadKey, setReloadKey] = useState(0);
+  const [acknowledged, setAcknowledged] = useState(false);
+  const source =
+    sources.find((candidate) => candidate.id === sourceId) ?? sources[0];
+
+  useEffect(() => {
+    let cancelled = false;
+    setReference(null);
+    source
+      .getPrice(
+        { address: sellToken, decimals: sellDetails.decimals },
+        { address: buyToken, decimals: buyDetails.decimals }
+      )
+      .then((price) => !cancelled && setReference(price))
+      .catch((err) => console.error("Failed to load reference price:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    source,
+    sellToken,
+    buyToken,
+    sellDetails.decimals,
+    buyDetails.decimals,
+    reloadKey,
+  ]);
+
+  const price =
+    sellAmount > 0 && buyAmount > 0
+      ? getPrice(
+          sellAmount,
+          buyAmount,
+          sellDetails.decimals,
+          buyDetails.decimals
+        )
+      : null;
+  const deviation =
+    price !== null && reference !== null
+      ? getPriceDeviation(price, reference)
+      : null;
+  const largeDeviation =
+    deviation !== null && Math.abs(deviation) > PRICE_DEVIATION_WARNING;
+
+  // Any change to the price needs a fresh acknowledgement
+  useEffect(() => setAcknowledged(false), [price, reference]);
+
+  useEffect(() => {
+    onConfirmationRequired(largeDeviation && !acknowledged);
+  }, [largeDeviation, acknowledged, onConfirmationRequired]);
+  useEffect(
+    () => () => onConfirmationRequired(false),
+    [onConfirmationRequired]
+  );
+
+  const saveManualPrice = () => {
+    manual.setPrice(sellToken, buyToken, Number(manualInput));
+    setManualInput("");
+    setReloadKey((key) => key + 1);
+  };
+
+  const pairLabel = `${buyDetails.symbol} per ${sellDetails.symbol}`;
+
+  return (
+    <Box>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+        <TextField
+          select
+          size="small"
+          label="Reference price"
+          value={source.id}
+          onChange={(e) => setSourceId(e.target.value)}
+          sx={{ minWidth: 180 }}
+        >
+          {sources.map((candidate) => (
+            <MenuItem key={candidate.id} value={candidate.id}>
+              {candidate.name}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Typography variant="body2">
+          {reference !== null
+            ? `${formatPrice(reference)} ${pairLabel}`
+            : "No reference price for this pair"}
+        </Typography>
+      </Box>
+
+      {source.id === manual.id && (
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1, mt: 1 }}>
+          <TextField
+            size="small"
+            label={`Set reference (${pairLabel})`}
+            value={manualInput}
+            onChange={(e) => setManualInput(e.target.value)}
+          />
+          <Button
+            onClick={saveManualPrice}
+            disabled={manualInput !== "" && !(Number(manualInput) >= 0)}
+          >
+            {manualInput === "" ? "Clear" : "Save"}
+          </Button>
+        </Box>
+      )}
+
+      {price !== null && (
+        <Typography variant="body2" sx={{ mt: 1 }}>
+          Your price: {formatPrice(price)} {pairLabel}
+          {deviation !== null &&
+            ` (${deviation > 0 ? "+" : ""}${deviation.toFixed(2)}% vs reference)`}
+        </Typography>
+      )}
+
+      {largeDeviation && deviation !== null && (
+        <Alert severity="warning" sx={{ mt: 1 }}>
+          {deviation < 0
+            ? `You are selling ${Math.abs(deviation).toFixed(1)}% below the reference price.`
+            : `You are asking ${deviation.toFixed(1)}% above the reference price; the order may never be filled.`}
+          <FormControlLabel
+            sx={{ display: "block" }}
+            control={
+              <Checkbox
+                checked={acknowledged}
+                onChange={(e) => setAcknowledged(e.target.checked)}
+              />
+            }
+            label="Create the order at this price anyway"
+          />
+        </Alert>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,343 @@
+"use client";
+import { useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { ethers } from "ethers";
+import { useChainId } from "wagmi";
+import { useOTC } from "@/contexts/OTCContext";
+import { useTransactions } from "@/contexts/TransactionContext";
+import { useTokenMetadata } from "@/hooks/useTokenMetadata";
+import TokenSymbol from "@/components/TokenSymbol";
+import { formatNative } from "@/components/TransactionReviewDialog";
+import { describeError } from "@/services/errors";
+import { getNativeCurrency } from "@/deployments";
+import { Order, OrderParams, ReplaceOrderSimulation } from "@/types";
+
+interface ReplaceOrderDialogProps {
+  order: Order;
+  onClose: () => void;
+}
+
+// edit -> review -> canceling -> creating -> done, or recover when the old
+// order is gone but the replacement was not created
+type ReplaceStage =
+  "edit" | "review" | "canceling" | "creating" | "recover" | "done";
+
+const parseAmount = (value: string, decimals: number) => {
+  try {
+    return ethers.parseUnits(value || "0", decimals);
+  } catch {
+    return BigInt(0);
+  }
+};
+
+// Cancels the maker's order and creates a repriced copy of it
+export default function ReplaceOrderDialog({
+  order,
+  onClose,
+}: ReplaceOrderDialogProps) {
+  const { client, refreshOrders } = useOTC();
+  const { runTransaction } = useTransactions();
+  const symbol = getNativeCurrency(useChainId());
+  const sellDetails = useTokenMetadata(order.sell.token);
+  const buyDetails = useTokenMetadata(order.buy.token);
+  const [sellInput, setSellInput] = useState<string | null>(null);
+  const [buyInput, setBuyInput] = useState<string | null>(null);
+  const [stage, setStage] = useState<ReplaceStage>("edit");
+  const [simulation, setSimulation] = useState<ReplaceOrderSimulation | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [newOrderId, setNewOrderId] = useState<number | null>(null);
+
+  // Prefill from the existing order once decimals are known
+  const sellValue =
+    sellInput ??
+    (sellDetails
+      ? ethers.formatUnits(order.sell.amount, sellDetails.decimals)
+      : "");
+  const buyValue =
+    buyInput ??
+    (buyDetails
+      ? ethers.formatUnits(order.buy.amount, buyDetails.decimals)
+      : "");
+
+  const params = useMemo<OrderParams | null>(
+    () =>
+      sellDetails && buyDetails
+        ? {
+            sellToken: order.sell.token,
+            sellAmount: parseAmount(sellValue, sellDetails.decimals),
+            buyToken: order.buy.token,
+            buyAmount: parseAmount(buyValue, buyDetails.decimals),
+            taker: order.taker === ethers.ZeroAddress ? undefined : order.taker,
+          }
+        : null,
+    [order, sellDetails, buyDetails, sellValue, buyValue]
+  );
+  const unchanged =
+    !!params &&
+    params.sellAmount === BigInt(order.sell.amount) &&
+    params.buyAmount === BigInt(order.buy.amount);
+
+  useEffect(() => {
+    if (stage !== "review" || !client || !params) return;
+    let cancelled = false;
+
+    setSimulation(null);
+    client
+      .simulateReplaceOrder(order.orderId, params)
+      .then((result) => !cancelled && setSimulation(result))
+      .catch((err) => {
+        console.error("Failed to simulate order replacement:", err);
+        if (!cancelled) setError(describeError(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stage, client, order.orderId, params]);
+
+  const createReplacement = async () => {
+    if (!client || !params) return;
+    setStage("creating");
+    setError(null);
+    try {
+      const result = await runTransaction(
+        `Create replacement for order #${order.orderId}`,
+        (onTransaction) => client.createOrder(params, onTransaction)
+      );
+      setNewOrderId(Number(result.orderId));
+      setStage("done");
+    } catch (err) {
+      console.error("Failed to create replacement order:", err);
+      setError(describeError(err));
+      setStage("recover");
+    } finally {
+      await refreshOrders();
+    }
+  };
+
+  const handleReplace = async () => {
+    if (!client) return;
+    setStage("canceling");
+    setError(null);
+    try {
+      await runTransaction(`Cancel order #${order.orderId}`, (onTransaction) =>
+        client.cancelOrder(order.orderId, onTransaction)
+      );
+    } catch (err) {
+      // Nothing changed on chain, so the review can simply be retried
+      console.error("Failed to cancel order for replacement:", err);
+      setError(describeError(err));
+      setStage("review");
+      return;
+    }
+    await createReplacement();
+  };
+
+  const busy = stage === "canceling" || stage === "creating";
+  const gasCost = (gas: bigint | null, gasPrice: bigint | null) =>
+    gas !== null && gasPrice !== null
+      ? formatNative(gas * gasPrice, symbol)
+      : null;
+
+  const renderCosts = (sim: ReplaceOrderSimulation) => {
+    const { cancel, create } = sim;
+    const knownCost =
+      create.value +
+      (cancel.gasLimit ?? BigInt(0)) * (cancel.gasPrice ?? BigInt(0)) +
+      (create.approvalGas ?? BigInt(0)) * (create.gasPrice ?? BigInt(0)) +
+      (create.gasLimit ?? BigInt(0)) * (create.gasPrice ?? BigInt(0));
+    return (
+      <Table size="small">
+        <TableBody>
+          <TableRow>
+            <TableCell>Cancel gas</TableCell>
+            <TableCell align="right">
+              {gasCost(cancel.gasLimit, cancel.gasPrice) ?? "—"}
+            </TableCell>
+          </TableRow>
+          {create.tokens.some((token) => token.approvals > 0) && (
+            <TableRow>
+              <TableCell>Approval gas</TableCell>
+              <TableCell align="right">
+                {gasCost(create.approvalGas, create.gasPrice) ?? "—"}
+              </TableCell>
+            </TableRow>
+          )}
+          <TableRow>
+            <TableCell>Create gas</TableCell>
+            <TableCell align="right">
+              {gasCost(create.gasLimit, create.gasPrice) ??
+                "Estimated once the old order is canceled"}
+            </TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Order creation fee</TableCell>
+            <TableCell align="right">
+              {formatNative(create.value, symbol)}
+            </TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>
+              <Typography variant="subtitle2">Total cost</Typography>
+            </TableCell>
+            <TableCell align="right">
+              <Typography variant="subtitle2">
+                {sim.totalCost !== null
+                  ? `up to ${formatNative(sim.totalCost, symbol)}`
+                  : `at least ${formatNative(knownCost, symbol)}`}
+              </Typography>
+            </TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <Dialog open onClose={busy ? undefined : onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Replace order #{order.orderId}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Orders can&apos;t be edited, so the order is canceled and a new one
+          created at the new price. The new order pays a fresh creation fee and
+          its expiry starts over.
+        </Typography>
+
+        {!sellDetails || !buyDetails ? (
+          <Box sx={{ display: "flex", justifyContent: "center", my: 3 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Box sx={{ display: "flex", gap: 2, mb: 2 }}>
+            <TextField
+              size="small"
+              label="Sell amount"
+              value={sellValue}
+              disabled={stage !== "edit"}
+              onChange={(e) => setSellInput(e.target.value)}
+              InputProps={{
+                endAdornment: <TokenSymbol address={order.sell.token} />,
+              }}
+            />
+            <TextField
+              size="small"
+              label="Buy amount"
+              value={buyValue}
+              disabled={stage !== "edit"}
+              onChange={(e) => setBuyInput(e.target.value)}
+              InputProps={{
+                endAdornment: <TokenSymbol address={order.buy.token} />,
+              }}
+            />
+          </Box>
+        )}
+
+        {stage === "review" && !simulation && !error && (
+          <Box sx={{ display: "flex", justifyContent: "center", my: 3 }}>
+            <CircularProgress />
+          </Box>
+        )}
+        {stage !== "edit" && simulation && (
+          <>
+            {(simulation.cancel.error || simulation.create.error) && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                This replacement is expected to fail:{" "}
+                {describeError(
+                  simulation.cancel.error ?? simulation.create.error
+                )}
+              </Alert>
+            )}
+            {renderCosts(simulation)}
+          </>
+        )}
+
+        {busy && (
+          <Alert
+            severity="info"
+            icon={<CircularProgress size={20} />}
+            sx={{ mt: 2 }}
+          >
+            {stage === "canceling"
+              ? `Canceling order #${order.orderId}...`
+              : "Creating the replacement order..."}
+          </Alert>
+        )}
+        {stage === "recover" && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            Order #{order.orderId} was canceled and its tokens returned, but the
+            replacement was not created: {error}
+          </Alert>
+        )}
+        {stage !== "recover" && error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {stage === "done" && (
+          <Alert severity="success" sx={{ mt: 2 }}>
+            Order #{order.orderId} was replaced by order #{newOrderId}.
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {stage === "edit" && (
+          <>
+            <Button onClick={onClose}>Cancel</Button>
+            <Button
+              variant="contained"
+              disabled={!params || unchanged}
+              onClick={() => {
+                setError(null);
+                setStage("review");
+              }}
+            >
+              Review
+            </Button>
+          </>
+        )}
+        {stage === "review" && (
+          <>
+            <Button onClick={() => setStage("edit")}>Back</Button>
+            <Button
+              variant="contained"
+              onClick={handleReplace}
+              disabled={
+                !simulation ||
+                !!simulation.cancel.error ||
+                !!simulation.create.error
+              }
+            >
+              Cancel and Recreate
+            </Button>
+          </>
+        )}
+        {stage === "recover" && (
+          <>
+            <Button onClick={onClose}>Close</Button>
+            <Button variant="contained" onClick={createReplacement}>
+              Retry Creating
+            </Button>
+          </>
+        )}
+        {stage === "done" && <Button onClick={onClose}>Close</Button>}
+      </DialogActions>
+    </Dialog>
+  );
+}
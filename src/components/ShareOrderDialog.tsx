@@ -0,0 +1,91 @@
+"use client";
+import { useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { ethers } from "ethers";
+import { QRCodeSVG } from "qrcode.react";
+import { buildOrderLink } from "@/services/orderLinks";
+
+interface ShareOrderDialogProps {
+  open: boolean;
+  onClose: () => void;
+  chainId: number;
+  contract: string;
+  orderId: number;
+  taker?: string;
+}
+
+export default function ShareOrderDialog({
+  open,
+  onClose,
+  chainId,
+  contract,
+  orderId,
+  taker,
+}: ShareOrderDialogProps) {
+  const [copied, setCopied] = useState(false);
+  const link =
+    typeof window !== "undefined"
+      ? buildOrderLink({ chainId, contract, orderId }, window.location.origin)
+      : "";
+  const isPrivate = !!taker && taker !== ethers.ZeroAddress;
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(link);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Order #{orderId} created</DialogTitle>
+      <DialogContent>
+        {isPrivate ? (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Only {taker} can fill this order. Send them the link below.
+          </Alert>
+        ) : (
+          <Typography sx={{ mb: 2 }}>
+            Anyone with this link can view and fill the order.
+          </Typography>
+        )}
+        <TextField
+          fullWidth
+          label="Order link"
+          value={link}
+          InputProps={{ readOnly: true }}
+          onFocus={(e) => e.target.select()}
+        />
+        {link && (
+          <Box sx={{ display: "flex", justifyContent: "center", mt: 2 }}>
+            <Box sx={{ p: 1, bgcolor: "white", lineHeight: 0 }}>
+              <QRCodeSVG value={link} size={192} />
+            </Box>
+          </Box>
+        )}
+        <Typography
+          variant="caption"
+          color="text.secondary"
+          sx={{ display: "block", textAlign: "center" }}
+        >
+          Scan the code to open the order on another device.
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Done</Button>
+        <Button variant="contained" onClick={handleCopy}>
+          {copied ? "Copied" : "Copy link"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+import { Box } from "@mui/material";
+import { ethers } from "ethers";
+import { useTokenMetadata } from "@/hooks/useTokenMetadata";
+import TokenSymbol from "@/components/TokenSymbol";
+
+interface TokenAmountProps {
+  token: string;
+  amount: string | bigint;
+  showLogo?: boolean;
+}
+
+export function formatTokenAmount(amount: string | bigint, decimals: number) {
+  return Number(ethers.formatUnits(BigInt(amount), decimals)).toLocaleString(
+    undefined,
+    { maximumFractionDigits: 6 }
+  );
+}
+
+// Renders nothing numeric until decimals are known, so a 6-decimal amount is
+// never briefly shown as if it had 18
+export default function TokenAmount({
+  token,
+  amount,
+  showLogo,
+}: TokenAmountProps) {
+  const metadata = useTokenMetadata(token);
+
+  return (
+    <Box
+      component="span"
+      sx={{ display: "inline-flex", alignItems: "center", gap: 0.5 }}
+    >
+      {metadata ? formatTokenAmount(amount, metadata.decimals) : "…"}
+      <TokenSymbol address={token} showLogo={showLogo} />
+    </Box>
+  );
+}
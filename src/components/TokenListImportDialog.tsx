@@ -0,0 +1,101 @@
+"use client";
+import { useState } from "react";
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useOTC } from "@/contexts/OTCContext";
+import { TokenList } from "@/types";
+
+interface TokenListImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function TokenListImportDialog({
+  open,
+  onClose,
+}: TokenListImportDialogProps) {
+  const { client } = useOTC();
+  const [source, setSource] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const importedLists = client?.tokens.getImportedTokenLists() ?? [];
+
+  const handleImport = async () => {
+    if (!client) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const trimmed = source.trim();
+      const list: TokenList = trimmed.startsWith("{")
+        ? JSON.parse(trimmed)
+        : await fetch(trimmed).then((response) => {
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            return response.json();
+          });
+      client.tokens.importTokenList(list);
+      setSource("");
+    } catch (err) {
+      console.error("Failed to import token list:", err);
+      setError("Could not import token list. Check the URL or JSON.");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Token lists</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Paste a token list URL or its JSON contents (tokenlists.org format).
+        </Typography>
+        <TextField
+          fullWidth
+          multiline
+          maxRows={6}
+          label="URL or JSON"
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+        />
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {importedLists.length > 0 && (
+          <List dense sx={{ mt: 2 }}>
+            {importedLists.map((list) => (
+              <ListItem key={list.name}>
+                <ListItemText
+                  primary={list.name}
+                  secondary={`${list.tokens.length} tokens`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button
+          variant="contained"
+          onClick={handleImport}
+          disabled={!client || !source.trim() || importing}
+        >
+          Import
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
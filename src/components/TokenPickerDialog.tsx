@@ -0,0 +1,240 @@
+"use client";
+import { useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  Avatar,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  List,
+  ListItemAvatar,
+  ListItemButton,
+  ListItemText,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { ethers } from "ethers";
+import { useOTC } from "@/contexts/OTCContext";
+import { formatTokenAmount } from "@/components/TokenAmount";
+import { shortenAddress } from "@/components/TokenSymbol";
+import { TokenMetadata } from "@/types";
+
+interface TokenPickerDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSelect: (token: TokenMetadata) => void;
+  // Token already chosen on the other side of the order
+  excludeAddress?: string;
+}
+
+export default function TokenPickerDialog({
+  open,
+  onClose,
+  onSelect,
+  excludeAddress,
+}: TokenPickerDialogProps) {
+  const { client, account } = useOTC();
+  const [query, setQuery] = useState("");
+  const [tokens, setTokens] = useState<TokenMetadata[]>([]);
+  const [recent, setRecent] = useState<TokenMetadata[]>([]);
+  const [balances, setBalances] = useState<Record<string, bigint>>({});
+  const [unknownToken, setUnknownToken] = useState<TokenMetadata | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  useEffect(() => {
+    if (!open || !client) return;
+    let cancelled = false;
+
+    const load = async () => {
+      const [listed, recentTokens] = await Promise.all([
+        client.tokens.listTokens(),
+        client.tokens.getRecentTokens(),
+      ]);
+      if (cancelled) return;
+      setTokens(listed);
+      setRecent(recentTokens);
+
+      if (account) {
+        const result = await client.getBalances(
+          listed.map((token) => token.address),
+          account
+        );
+        if (!cancelled) setBalances(result);
+      }
+    };
+
+    load().catch((err) => console.error("Failed to load token list:", err));
+    const unsubscribe = client.tokens.subscribe(() => {
+      load().catch((err) => console.error("Failed to load token list:", err));
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [open, client, account]);
+
+  const search = query.trim().toLowerCase();
+  const results = useMemo(
+    () =>
+      tokens
+        .filter(
+          (token) =>
+            !excludeAddress ||
+            token.address.toLowerCase() !== excludeAddress.toLowerCase()
+        )
+        .filter(
+          (token) =>
+            !search ||
+            token.symbol.toLowerCase().includes(search) ||
+            token.name.toLowerCase().includes(search) ||
+            token.address.toLowerCase() === search
+        )
+        .sort((a, b) => {
+          const balanceA = balances[a.address.toLowerCase()] ?? BigInt(0);
+          const balanceB = balances[b.address.toLowerCase()] ?? BigInt(0);
+          if (balanceA > 0 !== balanceB > 0) return balanceA > 0 ? -1 : 1;
+          return a.symbol.localeCompare(b.symbol);
+        }),
+    [tokens, search, balances, excludeAddress]
+  );
+
+  // A pasted address that is not in any list needs an explicit import
+  useEffect(() => {
+    setUnknownToken(null);
+    setLookupError(null);
+    setAcknowledged(false);
+    if (!client || !ethers.isAddress(search) || results.length > 0) return;
+
+    let cancelled = false;
+    client.tokens
+      .getToken(search)
+      .then((token) => !cancelled && setUnknownToken(token))
+      .catch(() => !cancelled && setLookupError("Not an ERC-20 token"));
+    return () => {
+      cancelled = true;
+    };
+  }, [client, search, results.length]);
+
+  const handleSelect = (token: TokenMetadata) => {
+    client?.tokens.addRecentToken(token.address);
+    onSelect(token);
+    setQuery("");
+    onClose();
+  };
+
+  const handleImport = () => {
+    if (!client || !unknownToken) return;
+    client.tokens.addCustomToken(unknownToken);
+    handleSelect(unknownToken);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Select a token</DialogTitle>
+      <DialogContent>
+        <TextField
+          fullWidth
+          autoFocus
+          size="small"
+          placeholder="Search name, symbol or paste address"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          sx={{ mt: 1 }}
+        />
+
+        {recent.length > 0 && !search && (
+          <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, mt: 2 }}>
+            {recent.map((token) => (
+              <Chip
+                key={token.address}
+                label={token.symbol}
+                avatar={<Avatar src={token.logoURI}>{token.symbol[0]}</Avatar>}
+                onClick={() => handleSelect(token)}
+                disabled={
+                  !!excludeAddress &&
+                  token.address.toLowerCase() === excludeAddress.toLowerCase()
+                }
+              />
+            ))}
+          </Box>
+        )}
+
+        {unknownToken && (
+          <Box sx={{ mt: 2 }}>
+            <Typography>
+              {unknownToken.name} ({unknownToken.symbol})
+            </Typography>
+            <Alert severity="warning" sx={{ mt: 1 }}>
+              This token is not on any of your token lists. Anyone can create a
+              token with any name, including fake versions of existing tokens.
+              Make sure {shortenAddress(unknownToken.address)} is the contract
+              you intend to trade.
+            </Alert>
+            <FormControlLabel
+              sx={{ mt: 1 }}
+              control={
+                <Checkbox
+                  checked={acknowledged}
+                  onChange={(e) => setAcknowledged(e.target.checked)}
+                />
+              }
+              label="I understand the risk"
+            />
+          </Box>
+        )}
+        {lookupError && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {lookupError}
+          </Alert>
+        )}
+
+        <List dense sx={{ mt: 1, maxHeight: 360, overflow: "auto" }}>
+          {results.map((token) => {
+            const balance = balances[token.address.toLowerCase()];
+            return (
+              <ListItemButton
+                key={token.address}
+                onClick={() => handleSelect(token)}
+              >
+                <ListItemAvatar>
+                  <Avatar src={token.logoURI}>{token.symbol[0]}</Avatar>
+                </ListItemAvatar>
+                <ListItemText primary={token.symbol} secondary={token.name} />
+                {balance !== undefined && (
+                  <Typography variant="body2" color="text.secondary">
+                    {formatTokenAmount(balance, token.decimals)}
+                  </Typography>
+                )}
+              </ListItemButton>
+            );
+          })}
+          {results.length === 0 && !unknownToken && (
+            <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+              No tokens found. Paste a token address to import it.
+            </Typography>
+          )}
+        </List>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        {unknownToken && (
+          <Button
+            variant="contained"
+            color="warning"
+            disabled={!acknowledged}
+            onClick={handleImport}
+          >
+            Import
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
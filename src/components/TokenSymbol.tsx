@@ -0,0 +1,39 @@
+"use client";
+import { Avatar, Box, Tooltip } from "@mui/material";
+import { useTokenMetadata } from "@/hooks/useTokenMetadata";
+
+interface TokenSymbolProps {
+  address: string;
+  showLogo?: boolean;
+}
+
+export const shortenAddress = (value: string) =>
+  `${value.slice(0, 6)}…${value.slice(-4)}`;
+
+export default function TokenSymbol({
+  address,
+  showLogo = true,
+}: TokenSymbolProps) {
+  const token = useTokenMetadata(address);
+  const symbol = token?.symbol ?? shortenAddress(address);
+
+  return (
+    <Tooltip title={token ? `${token.name} — ${address}` : address}>
+      <Box
+        component="span"
+        sx={{ display: "inline-flex", alignItems: "center", gap: 0.5 }}
+      >
+        {showLogo && (
+          <Avatar
+            src={token?.logoURI}
+            alt={symbol}
+            sx={{ width: 18, height: 18, fontSize: 10 }}
+          >
+            {symbol.slice(0, 2)}
+          </Avatar>
+        )}
+        {symbol}
+      </Box>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+import {
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import {
+  getTransactionLabel,
+  useTransactions,
+} from "@/contexts/TransactionContext";
+import { useTokenMetadata } from "@/hooks/useTokenMetadata";
+import { shortenAddress } from "@/components/TokenSymbol";
+import { getExplorerUrl } from "@/services/explorer";
+import { TrackedTransaction, TransactionState } from "@/types";
+
+interface TransactionHistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const STATE_COLORS: Record<TransactionState, "warning" | "success" | "error"> =
+  {
+    pending: "warning",
+    confirmed: "success",
+    failed: "error",
+    dropped: "error",
+  };
+
+function TransactionRow({ tx }: { tx: TrackedTransaction }) {
+  const token = useTokenMetadata(tx.token);
+  const url = getExplorerUrl(tx.chainId, "tx", tx.hash);
+
+  return (
+    <TableRow>
+      <TableCell>{getTransactionLabel(tx, token?.symbol)}</TableCell>
+      <TableCell>
+        <Chip size="small" label={tx.state} color={STATE_COLORS[tx.state]} />
+      </TableCell>
+      <TableCell>{new Date(tx.submittedAt * 1000).toLocaleString()}</TableCell>
+      <TableCell>
+        {url ? (
+          <Link href={url} target="_blank" rel="noopener noreferrer">
+            {shortenAddress(tx.hash)}
+          </Link>
+        ) : (
+          shortenAddress(tx.hash)
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function TransactionHistoryDialog({
+  open,
+  onClose,
+}: TransactionHistoryDialogProps) {
+  const { transactions, clearHistory } = useTransactions();
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle>Transactions</DialogTitle>
+      <DialogContent>
+        {transactions.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No transactions yet.
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Action</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell>Submitted</TableCell>
+                <TableCell>Transaction</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {transactions.map((tx) => (
+                <TransactionRow key={tx.hash} tx={tx} />
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={clearHistory} disabled={transactions.length === 0}>
+          Clear history
+        </Button>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+import { useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import { ethers } from "ethers";
+import { useChainId } from "wagmi";
+import TokenAmount from "@/components/TokenAmount";
+import { describeError } from "@/services/errors";
+import { getNativeCurrency } from "@/deployments";
+import { TransactionSimulation } from "@/types";
+
+interface TransactionReview {
+  title: string;
+  simulate: () => Promise<TransactionSimulation>;
+  onConfirm: () => void;
+}
+
+interface TransactionReviewDialogProps {
+  review: TransactionReview | null;
+  onClose: () => void;
+}
+
+export const formatNative = (value: bigint, symbol: string) =>
+  `${Number(ethers.formatEther(value)).toLocaleString(undefined, {
+    maximumFractionDigits: 6,
+  })} ${symbol}`;
+
+export default function TransactionReviewDialog({
+  review,
+  onClose,
+}: TransactionReviewDialogProps) {
+  const symbol = getNativeCurrency(useChainId());
+  const [simulation, setSimulation] = useState<TransactionSimulation | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!review) return;
+    let cancelled = false;
+
+    setSimulation(null);
+    setError(null);
+    review
+      .simulate()
+      .then((result) => !cancelled && setSimulation(result))
+      .catch((err) => {
+        console.error("Failed to simulate transaction:", err);
+        if (!cancelled) setError(describeError(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [review]);
+
+  const handleConfirm = () => {
+    review?.onConfirm();
+    onClose();
+  };
+
+  const approvals =
+    simulation?.tokens.reduce((total, token) => total + token.approvals, 0) ??
+    0;
+  const insufficientNative =
+    !!simulation &&
+    simulation.totalCost !== null &&
+    simulation.totalCost > simulation.nativeBalance;
+
+  return (
+    <Dialog open={!!review} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{review?.title}</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error">{error}</Alert>}
+        {!simulation && !error && (
+          <Box sx={{ display: "flex", justifyContent: "center", my: 3 }}>
+            <CircularProgress />
+          </Box>
+        )}
+        {simulation && (
+          <>
+            {simulation.error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                This transaction is expected to fail:{" "}
+                {describeError(simulation.error)}
+              </Alert>
+            )}
+            {insufficientNative && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                Your {symbol} balance may not cover gas and fees.
+              </Alert>
+            )}
+            {approvals > 0 && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                {approvals === 1
+                  ? "An approval transaction will be sent first."
+                  : `${approvals} approval transactions will be sent first.`}{" "}
+                Gas for the main transaction is estimated once approved.
+              </Alert>
+            )}
+
+            {simulation.tokens.length > 0 && (
+              <Table size="small" sx={{ mb: 2 }}>
+                <TableBody>
+                  {simulation.tokens.map((token) => (
+                    <TableRow key={token.token}>
+                      <TableCell>
+                        Spend{" "}
+                        <TokenAmount
+                          token={token.token}
+                          amount={token.amount}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        Balance{" "}
+                        <TokenAmount
+                          token={token.token}
+                          amount={token.balance}
+                          showLogo={false}
+                        />
+                      </TableCell>
+                      <TableCell align="right">
+                        {token.balance < token.amount ? (
+                          <Chip size="small" color="error" label="Shortfall" />
+                        ) : token.approvals > 0 ? (
+                          <Chip
+                            size="small"
+                            color="warning"
+                            label="Needs approval"
+                          />
+                        ) : (
+                          <Chip size="small" color="success" label="Approved" />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <Table size="small">
+              <TableBody>
+                {simulation.value > 0 && (
+                  <TableRow>
+                    <TableCell>Order creation fee</TableCell>
+                    <TableCell align="right">
+                      {formatNative(simulation.value, symbol)}
+                    </TableCell>
+                  </TableRow>
+                )}
+                <TableRow>
+                  <TableCell>Estimated gas</TableCell>
+                  <TableCell align="right">
+                    {simulation.gasLimit !== null
+                      ? simulation.gasLimit.toLocaleString()
+                      : "—"}
+                    {approvals > 0 &&
+                      simulation.approvalGas !== null &&
+                      ` + ${simulation.approvalGas.toLocaleString()} for approval`}
+                  </TableCell>
+                </TableRow>
+                {simulation.gasPrice !== null && (
+                  <TableRow>
+                    <TableCell>Max gas price</TableCell>
+                    <TableCell align="right">
+                      {Number(
+                        ethers.formatUnits(simulation.gasPrice, "gwei")
+                      ).toLocaleString(undefined, {
+                        maximumFractionDigits: 2,
+                      })}{" "}
+                      gwei
+                    </TableCell>
+                  </TableRow>
+                )}
+                <TableRow>
+                  <TableCell>
+                    <Typography variant="subtitle2">Total cost</Typography>
+                  </TableCell>
+                  <TableCell align="right">
+                    <Typography variant="subtitle2">
+                      {simulation.totalCost !== null
+                        ? `up to ${formatNative(simulation.totalCost, symbol)}`
+                        : "Unknown until approved"}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell>{symbol} balance</TableCell>
+                  <TableCell align="right">
+                    {formatNative(simulation.nativeBalance, symbol)}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleConfirm}
+          disabled={!simulation || !!simulation.error}
+        >
+          Confirm
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export type { TransactionReview };
@@ -0,0 +1,29 @@
+"use client";
+import { Alert, Box, Button } from "@mui/material";
+import { useSwitchChain } from "wagmi";
+import { DEPLOYMENTS } from "@/deployments";
+
+export default function UnsupportedNetwork() {
+  const { switchChain, isPending } = useSwitchChain();
+
+  return (
+    <Alert severity="warning" sx={{ mb: 2 }}>
+      OTC Swap is not deployed on this network.
+      {DEPLOYMENTS.length > 0 && " Switch to a supported network:"}
+      <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, mt: 1 }}>
+        {DEPLOYMENTS.map((deployment) => (
+          <Button
+            key={deployment.chainId}
+            size="small"
+            variant="outlined"
+            color="inherit"
+            disabled={isPending}
+            onClick={() => switchChain({ chainId: deployment.chainId })}
+          >
+            {deployment.name}
+          </Button>
+        ))}
+      </Box>
+    </Alert>
+  );
+}
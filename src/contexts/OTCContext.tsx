@@ -1,57 +1,96 @@
 "use client";
-import { createContext, useContext, useEffect, useState } from "react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
 import OTCClient from "@/services/otcClient";
 import OTCSwapABI from "@/services/abi/OTCSwap.json";
-import { ethers } from "ethers";
+import { useChainId } from "wagmi";
+import { useEthersProvider, useEthersSigner } from "@/hooks/useEthers";
+import { getDeployment } from "@/deployments";
+import { Deployment, Order, OrderBookUpdate } from "@/types";
+
+// How long newly arrived and just-removed orders stay highlighted
+const HIGHLIGHT_DURATION = 10_000;
 
 interface OTCContextType {
   client: OTCClient | null;
+  // Null when the contract is not deployed on the current chain
+  deployment: Deployment | null;
+  // True while no wallet is connected; reads go through the public RPC
+  readOnly: boolean;
+  // Account the client signs with, set once connect() has finished. Effects
+  // that depend on the signer key on this, since the client itself is reused.
+  account: string | null;
   loading: boolean;
   error: string | null;
+  orders: Order[];
+  ordersLoading: boolean;
+  ordersError: string | null;
+  recentlyAdded: number[];
+  recentlyRemoved: Order[];
+  refreshOrders: () => Promise<void>;
 }
 
 const OTCContext = createContext<OTCContextType>({
   client: null,
+  deployment: null,
+  readOnly: true,
+  account: null,
   loading: true,
   error: null,
+  orders: [],
+  ordersLoading: false,
+  ordersError: null,
+  recentlyAdded: [],
+  recentlyRemoved: [],
+  refreshOrders: async () => {},
 });
 
 export function OTCProvider({ children }: { children: React.ReactNode }) {
   const [client, setClient] = useState<OTCClient | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
-
-  useEffect(() => {
-    const handleProviderChange = async () => {
-      if (typeof window.ethereum !== "undefined") {
-        const newProvider = new ethers.BrowserProvider(window.ethereum);
-        setProvider(newProvider);
-      }
-    };
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [ordersLoading, setOrdersLoading] = useState(false);
+  const [ordersError, setOrdersError] = useState<string | null>(null);
+  const [recentlyAdded, setRecentlyAdded] = useState<number[]>([]);
+  const [recentlyRemoved, setRecentlyRemoved] = useState<Order[]>([]);
+  const [readOnly, setReadOnly] = useState(true);
+  const [account, setAccount] = useState<string | null>(null);
 
-    handleProviderChange();
-
-    window.ethereum.on("chainChanged", handleProviderChange);
-
-    return () => {
-      window.ethereum.removeListener("chainChanged", handleProviderChange);
-    };
-  }, []);
+  const chainId = useChainId();
+  const publicProvider = useEthersProvider(chainId);
+  const signer = useEthersSigner(chainId);
+  const deployment = getDeployment(chainId);
 
+  // Reads always go through the public RPC, so the order book loads without
+  // a wallet. Rebuilt on chain switches so no state from the previous network
+  // leaks into the new client.
   useEffect(() => {
-    const initClient = async () => {
-      if (!provider) return;
+    if (!publicProvider) return;
+    if (!deployment) {
+      setClient(null);
+      setOrders([]);
+      setLoading(false);
+      return;
+    }
 
+    const initClient = async () => {
       try {
         const newClient = new OTCClient(
-          process.env.NEXT_PUBLIC_OTCSWAP_ADDRESS!,
+          deployment.contract,
           OTCSwapABI.abi,
-          provider
+          publicProvider,
+          { startBlock: deployment.startBlock }
         );
-        newClient.connect(await provider.getSigner());
         setClient(newClient);
+        setError(null);
       } catch (err) {
+        console.error("Failed to initialize OTC client:", err);
         setError("Failed to initialize OTC client");
       } finally {
         setLoading(false);
@@ -59,10 +98,115 @@ export function OTCProvider({ children }: { children: React.ReactNode }) {
     };
 
     initClient();
-  }, [provider]);
+  }, [publicProvider, deployment]);
+
+  // Connecting or switching accounts upgrades the existing client in place,
+  // keeping the order book subscription alive
+  useEffect(() => {
+    if (!client) return;
+    let cancelled = false;
+
+    const syncSigner = async () => {
+      try {
+        if (signer) await client.connect(signer);
+        else client.disconnect();
+        if (cancelled) return;
+        setAccount(signer ? await signer.getAddress() : null);
+        setReadOnly(!signer);
+      } catch (err) {
+        console.error("Failed to connect wallet:", err);
+        if (cancelled) return;
+        client.disconnect();
+        setAccount(null);
+        setReadOnly(true);
+      }
+    };
+
+    syncSigner();
+    return () => {
+      cancelled = true;
+    };
+  }, [client, signer]);
+
+  const handleOrderBookUpdate = useCallback((update: OrderBookUpdate) => {
+    setOrders(update.orders);
+    setOrdersError(null);
+
+    if (update.added.length > 0) {
+      const addedIds = update.added.map((order) => order.orderId);
+      setRecentlyAdded((prev) => [...prev, ...addedIds]);
+      setTimeout(() => {
+        setRecentlyAdded((prev) => prev.filter((id) => !addedIds.includes(id)));
+      }, HIGHLIGHT_DURATION);
+    }
+
+    if (update.removed.length > 0) {
+      setRecentlyRemoved((prev) => [...prev, ...update.removed]);
+      setTimeout(() => {
+        setRecentlyRemoved((prev) =>
+          prev.filter((order) => !update.removed.includes(order))
+        );
+      }, HIGHLIGHT_DURATION);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!client) return;
+
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    setOrdersLoading(true);
+    client
+      .subscribeToOrders(handleOrderBookUpdate)
+      .then((stop) => {
+        if (cancelled) stop();
+        else unsubscribe = stop;
+      })
+      .catch((err) => {
+        console.error("Failed to subscribe to orders:", err);
+        setOrdersError("Failed to load orders");
+      })
+      .finally(() => setOrdersLoading(false));
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [client, handleOrderBookUpdate]);
+
+  const refreshOrders = useCallback(async () => {
+    if (!client) return;
+    setOrdersLoading(true);
+    setOrdersError(null);
+    try {
+      const result = await client.getActiveOrders();
+      setOrders(result.orders);
+    } catch (err) {
+      console.error("Failed to load orders:", err);
+      setOrdersError("Failed to load orders");
+    } finally {
+      setOrdersLoading(false);
+    }
+  }, [client]);
 
   return (
-    <OTCContext.Provider value={{ client, loading, error }}>
+    <OTCContext.Provider
+      value={{
+        client,
+        deployment,
+        readOnly,
+        account,
+        loading,
+        error,
+        orders,
+        ordersLoading,
+        ordersError,
+        recentlyAdded,
+        recentlyRemoved,
+        refreshOrders,
+      }}
+    >
       {children}
     </OTCContext.Provider>
   );
@@ -0,0 +1,245 @@
+"use client";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { Alert, Link, Snackbar } from "@mui/material";
+import { useOTC } from "@/contexts/OTCContext";
+import { getExplorerUrl } from "@/services/explorer";
+import { describeError, toOTCError } from "@/services/errors";
+import { getDefaultStorage, readJSON, writeJSON } from "@/services/storage";
+import {
+  TrackedTransaction,
+  TransactionCallback,
+  TransactionKind,
+  TransactionState,
+} from "@/types";
+
+const STORAGE_KEY = "otc-swap:transactions";
+const MAX_HISTORY = 50;
+
+export const TRANSACTION_LABELS: Record<TransactionKind, string> = {
+  approve: "Approve",
+  resetApproval: "Reset approval",
+  revoke: "Revoke approval",
+  createOrder: "Create order",
+  fillOrder: "Fill order",
+  cancelOrder: "Cancel order",
+  cleanup: "Clean up orders",
+};
+
+interface Toast {
+  id: number;
+  severity: "info" | "success" | "error";
+  message: string;
+  url?: string | null;
+}
+
+interface TransactionContextType {
+  transactions: TrackedTransaction[];
+  // Runs a user action, tracking every transaction it sends
+  runTransaction: <T>(
+    action: string,
+    send: (onTransaction: TransactionCallback) => Promise<T>
+  ) => Promise<T>;
+  clearHistory: () => void;
+}
+
+const TransactionContext = createContext<TransactionContextType>({
+  transactions: [],
+  runTransaction: (_, send) => send(() => {}),
+  clearHistory: () => {},
+});
+
+export function TransactionProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const { client } = useOTC();
+  const [storage] = useState(getDefaultStorage);
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([]);
+  const [toast, setToast] = useState<Toast | null>(null);
+  const watching = useRef(new Set<string>());
+
+  useEffect(() => {
+    setTransactions(readJSON<TrackedTransaction[]>(storage, STORAGE_KEY) ?? []);
+  }, [storage]);
+
+  const update = useCallback(
+    (change: (prev: TrackedTransaction[]) => TrackedTransaction[]) => {
+      setTransactions((prev) => {
+        const next = change(prev).slice(0, MAX_HISTORY);
+        writeJSON(storage, STORAGE_KEY, next);
+        return next;
+      });
+    },
+    [storage]
+  );
+
+  const describe = useCallback(
+    (tx: TrackedTransaction) =>
+      getTransactionLabel(
+        tx,
+        tx.token ? client?.tokens.peekToken(tx.token)?.symbol : undefined
+      ),
+    [client]
+  );
+
+  const showToast = useCallback(
+    (
+      tx: TrackedTransaction | null,
+      severity: Toast["severity"],
+      message: string
+    ) =>
+      setToast({
+        id: Date.now(),
+        severity,
+        message,
+        url: tx && getExplorerUrl(tx.chainId, "tx", tx.hash),
+      }),
+    []
+  );
+
+  const watch = useCallback(
+    (tx: TrackedTransaction) => {
+      if (!client || watching.current.has(tx.hash)) return;
+      watching.current.add(tx.hash);
+
+      const settle = (state: TransactionState) => {
+        watching.current.delete(tx.hash);
+        update((prev) =>
+          prev.map((item) =>
+            item.hash === tx.hash ? { ...item, state } : item
+          )
+        );
+        showToast(
+          tx,
+          state === "confirmed" ? "success" : "error",
+          `${describe(tx)} ${state}`
+        );
+      };
+
+      client
+        .waitForTransaction(tx.hash)
+        .then((receipt) =>
+          settle(
+            receipt === null
+              ? "dropped"
+              : receipt.status === 1
+                ? "confirmed"
+                : "failed"
+          )
+        )
+        .catch((err) => {
+          console.error("Failed to wait for transaction:", err);
+          watching.current.delete(tx.hash);
+        });
+    },
+    [client, update, showToast, describe]
+  );
+
+  // Resume waiting for transactions still pending when the page was closed
+  useEffect(() => {
+    if (!client) return;
+    let cancelled = false;
+    client.tokens.getChainId().then((chainId) => {
+      if (cancelled) return;
+      transactions
+        .filter((tx) => tx.state === "pending" && tx.chainId === chainId)
+        .forEach(watch);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, transactions, watch]);
+
+  const runTransaction = useCallback(
+    async <T,>(
+      action: string,
+      send: (onTransaction: TransactionCallback) => Promise<T>
+    ): Promise<T> => {
+      if (!client) throw new Error("Client not initialized");
+      const chainId = await client.tokens.getChainId();
+
+      try {
+        return await send((step) => {
+          const tx: TrackedTransaction = {
+            ...step,
+            chainId,
+            action,
+            state: "pending",
+            submittedAt: Math.floor(Date.now() / 1000),
+          };
+          update((prev) => [tx, ...prev]);
+          showToast(tx, "info", `${describe(tx)} submitted`);
+          watch(tx);
+        });
+      } catch (err) {
+        const error = toOTCError(err);
+        if (error.code === "USER_REJECTED") {
+          showToast(null, "info", `${action} rejected in wallet`);
+        } else {
+          showToast(null, "error", `${action} failed: ${describeError(error)}`);
+        }
+        throw error;
+      }
+    },
+    [client, update, showToast, watch, describe]
+  );
+
+  const clearHistory = useCallback(
+    () => update((prev) => prev.filter((tx) => tx.state === "pending")),
+    [update]
+  );
+
+  return (
+    <TransactionContext.Provider
+      value={{ transactions, runTransaction, clearHistory }}
+    >
+      {children}
+      <Snackbar
+        key={toast?.id}
+        open={!!toast}
+        autoHideDuration={toast?.severity === "error" ? null : 6000}
+        onClose={(_, reason) => reason !== "clickaway" && setToast(null)}
+        anchorOrigin={{ vertical: "bottom", horizontal: "right" }}
+      >
+        <Alert
+          severity={toast?.severity}
+          onClose={() => setToast(null)}
+          sx={{ maxWidth: 480 }}
+        >
+          {toast?.message}
+          {toast?.url && (
+            <>
+              {" "}
+              <Link href={toast.url} target="_blank" rel="noopener noreferrer">
+                View
+              </Link>
+            </>
+          )}
+        </Alert>
+      </Snackbar>
+    </TransactionContext.Provider>
+  );
+}
+
+export function getTransactionLabel(
+  tx: Pick<TrackedTransaction, "kind" | "action">,
+  tokenSymbol?: string
+) {
+  if (tx.kind === "approve" || tx.kind === "resetApproval") {
+    return `${TRANSACTION_LABELS[tx.kind]} ${tokenSymbol ?? "token"} for ${tx.action.toLowerCase()}`;
+  }
+  if (tx.kind === "revoke") {
+    return `${TRANSACTION_LABELS[tx.kind]} for ${tokenSymbol ?? "token"}`;
+  }
+  return tx.action;
+}
+
+export const useTransactions = () => useContext(TransactionContext);
@@ -0,0 +1,68 @@
+import { ethers } from "ethers";
+import { Chain, mainnet, polygon, sepolia } from "wagmi/chains";
+import { Deployment } from "@/types";
+
+// Next.js only inlines literal process.env.NEXT_PUBLIC_* reads, so every
+// chain names its variables explicitly. A chain without a contract address
+// is shown as unsupported.
+const CONFIGURED: {
+  chain: Pick<Chain, "id" | "name" | "nativeCurrency" | "blockExplorers">;
+  contract?: string;
+  startBlock?: string;
+  priceFactory?: string;
+}[] = [
+  {
+    chain: mainnet,
+    contract: process.env.NEXT_PUBLIC_OTCSWAP_ADDRESS_1,
+    startBlock: process.env.NEXT_PUBLIC_OTCSWAP_START_BLOCK_1,
+    // Uniswap V2
+    priceFactory: "0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f",
+  },
+  {
+    chain: polygon,
+    contract: process.env.NEXT_PUBLIC_OTCSWAP_ADDRESS_137,
+    startBlock: process.env.NEXT_PUBLIC_OTCSWAP_START_BLOCK_137,
+    // QuickSwap
+    priceFactory: "0x5757371414417b8C6CAad45bAeF941aBc7d3Ab32",
+  },
+  {
+    chain: sepolia,
+    contract: process.env.NEXT_PUBLIC_OTCSWAP_ADDRESS_11155111,
+    startBlock: process.env.NEXT_PUBLIC_OTCSWAP_START_BLOCK_11155111,
+  },
+  {
+    chain: {
+      id: 1337,
+      name: "Hardhat",
+      nativeCurrency: { name: "Hardhat", symbol: "ETH", decimals: 18 },
+    },
+    // The single-address variable predates per-chain deployments
+    contract:
+      process.env.NEXT_PUBLIC_OTCSWAP_ADDRESS_1337 ??
+      process.env.NEXT_PUBLIC_OTCSWAP_ADDRESS,
+    startBlock: process.env.NEXT_PUBLIC_OTCSWAP_START_BLOCK_1337,
+  },
+];
+
+export const DEPLOYMENTS: Deployment[] = CONFIGURED.filter(
+  ({ contract }) => !!contract && ethers.isAddress(contract)
+).map(({ chain, contract, startBlock, priceFactory }) => ({
+  chainId: chain.id,
+  name: chain.name,
+  contract: ethers.getAddress(contract!),
+  startBlock: startBlock ? Number(startBlock) : undefined,
+  explorerUrl: chain.blockExplorers?.default.url,
+  nativeCurrency: chain.nativeCurrency.symbol,
+  priceFactory,
+}));
+
+export function getDeployment(chainId: number): Deployment | null {
+  return (
+    DEPLOYMENTS.find((deployment) => deployment.chainId === chainId) ?? null
+  );
+}
+
+// Symbol used to label fees and gas on the given chain
+export function getNativeCurrency(chainId: number): string {
+  return getDeployment(chainId)?.nativeCurrency ?? "ETH";
+}
@@ -0,0 +1,54 @@
+"use client";
+import { useMemo } from "react";
+import { ethers } from "ethers";
+import type { Account, Chain, Client, Transport } from "viem";
+import { Config, useClient, useConnectorClient } from "wagmi";
+
+function toNetwork(chain: Chain): ethers.Network {
+  const network = new ethers.Network(chain.name, chain.id);
+  const ensAddress = chain.contracts?.ensRegistry?.address;
+  if (ensAddress) network.attachPlugin(new ethers.EnsPlugin(ensAddress));
+  return network;
+}
+
+// Read-only provider over the chain's public RPC from the wagmi config
+export function clientToProvider(
+  client: Client<Transport, Chain>
+): ethers.Provider {
+  const { chain, transport } = client;
+  // The chain is known up front, so skip eth_chainId polling
+  const network = toNetwork(chain);
+  const options = { staticNetwork: network };
+  if (transport.type === "fallback") {
+    const providers = (transport.transports as ReturnType<Transport>[]).map(
+      ({ value }) => new ethers.JsonRpcProvider(value?.url, network, options)
+    );
+    if (providers.length === 1) return providers[0];
+    return new ethers.FallbackProvider(providers);
+  }
+  return new ethers.JsonRpcProvider(transport.url, network, options);
+}
+
+// Signer backed by whichever connector wagmi connected (injected,
+// WalletConnect, Coinbase, ...), rather than window.ethereum
+export function clientToSigner(
+  client: Client<Transport, Chain, Account>
+): ethers.JsonRpcSigner {
+  const { account, chain, transport } = client;
+  const provider = new ethers.BrowserProvider(transport, toNetwork(chain));
+  return new ethers.JsonRpcSigner(provider, account.address);
+}
+
+export function useEthersProvider(chainId?: number) {
+  const client = useClient<Config>({ chainId });
+  return useMemo(
+    () => (client ? clientToProvider(client) : undefined),
+    [client]
+  );
+}
+
+// Undefined until a wallet is connected on the given chain
+export function useEthersSigner(chainId?: number) {
+  const { data: client } = useConnectorClient<Config>({ chainId });
+  return useMemo(() => (client ? clientToSigner(client) : undefined), [client]);
+}
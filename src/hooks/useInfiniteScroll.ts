@@ -0,0 +1,37 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Renders a growing prefix of a long list: another page is added whenever
+// the sentinel element scrolls into view. Changing resetKey, e.g. when the
+// filters change, goes back to the first page.
+export function useInfiniteScroll(
+  total: number,
+  pageSize: number,
+  resetKey?: unknown
+) {
+  const [count, setCount] = useState(pageSize);
+  const observer = useRef<IntersectionObserver | null>(null);
+
+  useEffect(() => setCount(pageSize), [pageSize, resetKey]);
+
+  // Re-observing after every page fires the callback again right away, so a
+  // sentinel that is still visible keeps loading
+  const sentinelRef = useCallback(
+    (node: HTMLElement | null) => {
+      observer.current?.disconnect();
+      if (!node) return;
+      observer.current = new IntersectionObserver(
+        (entries) => {
+          if (entries.some((entry) => entry.isIntersecting)) {
+            setCount(count + pageSize);
+          }
+        },
+        { rootMargin: "400px" }
+      );
+      observer.current.observe(node);
+    },
+    [pageSize, count]
+  );
+
+  return { count: Math.min(count, total), hasMore: count < total, sentinelRef };
+}
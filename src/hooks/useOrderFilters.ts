@@ -0,0 +1,32 @@
+"use client";
+import { useCallback, useMemo } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { parseOrderFilters, toSearchParams } from "@/services/orderFilters";
+import { OrderFilters } from "@/types";
+
+// Filter state lives in the URL query so filtered views can be bookmarked
+export function useOrderFilters(): [
+  OrderFilters,
+  (filters: OrderFilters) => void,
+] {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const filters = useMemo(
+    () => parseOrderFilters(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+
+  const setFilters = useCallback(
+    (next: OrderFilters) => {
+      const query = toSearchParams(next).toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, {
+        scroll: false,
+      });
+    },
+    [router, pathname]
+  );
+
+  return [filters, setFilters];
+}
@@ -0,0 +1,38 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { useOTC } from "@/contexts/OTCContext";
+import { getOrderStatus } from "@/services/orderStatus";
+import { CleanupQueue, Order, OrderStatus, OrderTiming } from "@/types";
+
+// Loads the contract timing and cleanup queue once per order book update and
+// returns a status resolver for the current moment.
+export function useOrderStatus() {
+  const { client, orders } = useOTC();
+  const [timing, setTiming] = useState<OrderTiming | null>(null);
+  const [queue, setQueue] = useState<CleanupQueue | undefined>(undefined);
+
+  useEffect(() => {
+    if (!client) return;
+    let cancelled = false;
+
+    client
+      .getOrderExpiryInfo()
+      .then((result) => !cancelled && setTiming(result));
+    client
+      .getCleanupQueue()
+      .then((result) => !cancelled && setQueue(result))
+      .catch((err) => console.warn("Failed to load cleanup queue:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, orders]);
+
+  const getStatus = useCallback(
+    (order: Order): OrderStatus | null =>
+      timing ? getOrderStatus(order, timing, undefined, queue) : null,
+    [timing, queue]
+  );
+
+  return { timing, getStatus };
+}
@@ -0,0 +1,27 @@
+"use client";
+import { useMemo } from "react";
+import { useChainId } from "wagmi";
+import { useEthersProvider } from "@/hooks/useEthers";
+import { getDeployment } from "@/deployments";
+import ManualPriceSource from "@/services/manualPriceSource";
+import PoolPriceSource from "@/services/poolPriceSource";
+import { PriceSource } from "@/types";
+
+// Reference price sources for the current chain, the manual one first
+export function usePriceSources(): {
+  manual: ManualPriceSource;
+  sources: PriceSource[];
+} {
+  const chainId = useChainId();
+  const provider = useEthersProvider(chainId);
+
+  return useMemo(() => {
+    const manual = new ManualPriceSource(chainId);
+    const factory = getDeployment(chainId)?.priceFactory;
+    const sources: PriceSource[] = [manual];
+    if (provider && factory) {
+      sources.push(new PoolPriceSource(provider, factory));
+    }
+    return { manual, sources };
+  }, [chainId, provider]);
+}
@@ -0,0 +1,44 @@
+"use client";
+import { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { useOTC } from "@/contexts/OTCContext";
+import { TokenMetadata } from "@/types";
+
+export function useTokenMetadata(
+  address: string | null | undefined
+): TokenMetadata | undefined {
+  const { client } = useOTC();
+  const registry = client?.tokens;
+  const [token, setToken] = useState<TokenMetadata | undefined>(() =>
+    address ? registry?.peekToken(address) : undefined
+  );
+
+  useEffect(() => {
+    if (!registry || !address || !ethers.isAddress(address)) {
+      setToken(undefined);
+      return;
+    }
+    let cancelled = false;
+
+    const refresh = () => {
+      const cached = registry.peekToken(address);
+      if (cached) {
+        setToken(cached);
+        return;
+      }
+      registry
+        .getToken(address)
+        .then((result) => !cancelled && setToken(result))
+        .catch(() => !cancelled && setToken(undefined));
+    };
+
+    refresh();
+    const unsubscribe = registry.subscribe(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [registry, address]);
+
+  return token;
+}
@@ -8,6 +8,7 @@ import React from 'react'
 import { WagmiProvider } from 'wagmi'
 import '@rainbow-me/rainbowkit/styles.css';
 import { OTCProvider } from '@/contexts/OTCContext';
+import { TransactionProvider } from '@/contexts/TransactionContext';
 
 const client = new QueryClient();
 
@@ -18,7 +19,9 @@ function Providers({ children }: { children: React.ReactNode }) {
         <QueryClientProvider client={client}>
           <RainbowKitProvider>
             <OTCProvider>
-              {children}
+              <TransactionProvider>
+                {children}
+              </TransactionProvider>
             </OTCProvider>
           </RainbowKitProvider>
         </QueryClientProvider>
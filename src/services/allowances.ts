@@ -0,0 +1,222 @@
+import { ethers } from "ethers";
+import {
+  ApprovalMode,
+  TokenAllowance,
+  TransactionCallback,
+  TransactionKind,
+} from "@/types";
+import {
+  KeyValueStorage,
+  getDefaultStorage,
+  readJSON,
+  writeJSON,
+} from "@/services/storage";
+
+const ERC20_ALLOWANCE_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+const EIP2612_ABI = [
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+];
+
+const APPROVAL_MODE_KEY = "otc-swap:approval-mode";
+const APPROVED_TOKENS_KEY_PREFIX = "otc-swap:approved-tokens";
+
+// Some tokens decrease even a max approval on every transfer
+const UNLIMITED_THRESHOLD = ethers.MaxUint256 / BigInt(2);
+
+interface AllowanceManagerOptions {
+  storage?: KeyValueStorage;
+}
+
+class AllowanceManager {
+  private provider: ethers.Provider;
+  private spender: string;
+  private storage: KeyValueStorage;
+  private permitSupport = new Map<string, Promise<boolean>>();
+
+  constructor(
+    provider: ethers.Provider,
+    spender: string,
+    options: AllowanceManagerOptions = {}
+  ) {
+    this.provider = provider;
+    this.spender = spender;
+    this.storage = options.storage ?? getDefaultStorage();
+  }
+
+  getApprovalMode(): ApprovalMode {
+    return readJSON<ApprovalMode>(this.storage, APPROVAL_MODE_KEY) ?? "exact";
+  }
+
+  setApprovalMode(mode: ApprovalMode) {
+    writeJSON(this.storage, APPROVAL_MODE_KEY, mode);
+  }
+
+  async getAllowance(token: string, owner: string): Promise<bigint> {
+    const contract = new ethers.Contract(
+      token,
+      ERC20_ALLOWANCE_ABI,
+      this.provider
+    );
+    return contract.allowance(owner, this.spender);
+  }
+
+  // Only detected for display: OTCSwap pulls tokens with transferFrom and
+  // has no entry point that accepts a permit signature
+  supportsPermit(token: string): Promise<boolean> {
+    const key = token.toLowerCase();
+    let support = this.permitSupport.get(key);
+    if (!support) {
+      const contract = new ethers.Contract(token, EIP2612_ABI, this.provider);
+      support = Promise.all([
+        contract.DOMAIN_SEPARATOR(),
+        contract.nonces(ethers.ZeroAddress),
+      ])
+        .then(() => true)
+        .catch(() => false);
+      this.permitSupport.set(key, support);
+    }
+    return support;
+  }
+
+  // Approves the OTC contract for at least `amount` unless the existing
+  // allowance already covers it. Returns the approval transaction hashes.
+  async ensureAllowance(
+    token: string,
+    amount: bigint,
+    signer: ethers.Signer,
+    onTransaction?: TransactionCallback
+  ): Promise<string[]> {
+    const owner = await signer.getAddress();
+    const current = await this.getAllowance(token, owner);
+    if (current >= amount) return [];
+
+    const contract = new ethers.Contract(token, ERC20_ALLOWANCE_ABI, signer);
+    const target =
+      this.getApprovalMode() === "unlimited" ? ethers.MaxUint256 : amount;
+    const hashes: string[] = [];
+
+    // USDT and similar tokens revert when changing one non-zero allowance
+    // to another, so those need a reset to zero first
+    if (
+      current > 0 &&
+      (await this.estimateApprove(contract, target)) === null
+    ) {
+      hashes.push(
+        await this.approve(contract, BigInt(0), "resetApproval", onTransaction)
+      );
+    }
+    hashes.push(await this.approve(contract, target, "approve", onTransaction));
+
+    await this.trackToken(token);
+    return hashes;
+  }
+
+  // Approval transactions ensureAllowance would send and their gas. Gas is
+  // null when the token rejects the estimate.
+  async estimateApproval(
+    token: string,
+    amount: bigint,
+    signer: ethers.Signer
+  ): Promise<{ transactions: number; gas: bigint | null }> {
+    const owner = await signer.getAddress();
+    const current = await this.getAllowance(token, owner);
+    if (current >= amount) return { transactions: 0, gas: BigInt(0) };
+
+    const contract = new ethers.Contract(token, ERC20_ALLOWANCE_ABI, signer);
+    const target =
+      this.getApprovalMode() === "unlimited" ? ethers.MaxUint256 : amount;
+    const direct = await this.estimateApprove(contract, target);
+    if (direct !== null || current === BigInt(0)) {
+      return { transactions: 1, gas: direct };
+    }
+
+    // The second approval costs about the same as the reset
+    const reset = await this.estimateApprove(contract, BigInt(0));
+    return {
+      transactions: 2,
+      gas: reset === null ? null : reset * BigInt(2),
+    };
+  }
+
+  async revoke(
+    token: string,
+    signer: ethers.Signer,
+    onTransaction?: TransactionCallback
+  ): Promise<string> {
+    const contract = new ethers.Contract(token, ERC20_ALLOWANCE_ABI, signer);
+    return this.approve(contract, BigInt(0), "revoke", onTransaction);
+  }
+
+  // Non-zero allowances granted to the OTC contract for the given tokens and
+  // any token this app has approved before
+  async getAllowances(
+    owner: string,
+    tokens: string[] = []
+  ): Promise<TokenAllowance[]> {
+    const tracked = await this.getTrackedTokens();
+    const candidates = [
+      ...new Set([...tokens, ...tracked].map((token) => token.toLowerCase())),
+    ];
+
+    const results = await Promise.all(
+      candidates.map(async (token) => {
+        const allowance = await this.getAllowance(token, owner).catch(() =>
+          BigInt(0)
+        );
+        if (allowance === BigInt(0)) return null;
+        return {
+          token: ethers.getAddress(token),
+          allowance,
+          unlimited: allowance >= UNLIMITED_THRESHOLD,
+          supportsPermit: await this.supportsPermit(token),
+        };
+      })
+    );
+    return results.filter(
+      (result): result is TokenAllowance => result !== null
+    );
+  }
+
+  private async estimateApprove(
+    contract: ethers.Contract,
+    amount: bigint
+  ): Promise<bigint | null> {
+    return contract.approve.estimateGas(this.spender, amount).catch(() => null);
+  }
+
+  private async approve(
+    contract: ethers.Contract,
+    amount: bigint,
+    kind: TransactionKind,
+    onTransaction?: TransactionCallback
+  ): Promise<string> {
+    const tx = await contract.approve(this.spender, amount);
+    onTransaction?.({ kind, hash: tx.hash, token: contract.target as string });
+    await tx.wait();
+    return tx.hash;
+  }
+
+  private async getStorageKey(): Promise<string> {
+    const { chainId } = await this.provider.getNetwork();
+    return `${APPROVED_TOKENS_KEY_PREFIX}:${chainId}:${this.spender.toLowerCase()}`;
+  }
+
+  private async getTrackedTokens(): Promise<string[]> {
+    return readJSON<string[]>(this.storage, await this.getStorageKey()) ?? [];
+  }
+
+  private async trackToken(token: string) {
+    const key = await this.getStorageKey();
+    const tracked = readJSON<string[]>(this.storage, key) ?? [];
+    if (!tracked.includes(token.toLowerCase())) {
+      writeJSON(this.storage, key, [...tracked, token.toLowerCase()]);
+    }
+  }
+}
+
+export type { AllowanceManagerOptions };
+export default AllowanceManager;
@@ -0,0 +1,62 @@
+import { ethers } from "ethers";
+import { BatchFillPlan, Order } from "@/types";
+import { getPrice } from "@/services/pricing";
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+// Orders can only be filled whole, so the plan takes the cheapest compatible
+// orders until their combined size reaches the target; the last one may
+// overshoot it.
+export function planBatchFill(
+  orders: Order[],
+  receiveToken: string,
+  payToken: string,
+  target: bigint,
+  receiveDecimals: number,
+  payDecimals: number,
+  account?: string
+): BatchFillPlan {
+  const candidates = orders
+    .filter(
+      (order) =>
+        sameAddress(order.sell.token, receiveToken) &&
+        sameAddress(order.buy.token, payToken) &&
+        (order.taker === ethers.ZeroAddress ||
+          (!!account && sameAddress(order.taker, account))) &&
+        !(account && sameAddress(order.maker, account))
+    )
+    .map((order) => ({
+      order,
+      price: getPrice(
+        BigInt(order.sell.amount),
+        BigInt(order.buy.amount),
+        receiveDecimals,
+        payDecimals
+      ),
+    }))
+    .sort((a, b) => a.price - b.price || a.order.orderId - b.order.orderId);
+
+  const selected: Order[] = [];
+  let totalReceive = BigInt(0);
+  let totalPay = BigInt(0);
+  for (const { order } of candidates) {
+    if (totalReceive >= target) break;
+    selected.push(order);
+    totalReceive += BigInt(order.sell.amount);
+    totalPay += BigInt(order.buy.amount);
+  }
+
+  return {
+    orders: selected,
+    totalReceive,
+    totalPay,
+    averagePrice: getPrice(
+      totalReceive,
+      totalPay,
+      receiveDecimals,
+      payDecimals
+    ),
+    complete: target > 0 && totalReceive >= target,
+  };
+}
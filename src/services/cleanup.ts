@@ -0,0 +1,44 @@
+import { CleanupEstimate, OnChainOrder, OrderTiming } from "@/types";
+import { getGracePeriodEnd } from "@/services/orderStatus";
+
+// The README's calculateCleanupReward over orders read from firstOrderId up
+// to MAX_CLEANUP_BATCH: deleted slots are skipped and the walk stops at the
+// first order still inside its grace period.
+export function calculateCleanupReward(
+  orders: (OnChainOrder | null)[],
+  timing: OrderTiming,
+  now: number = Math.floor(Date.now() / 1000)
+) {
+  const cleanable: OnChainOrder[] = [];
+  let reward = BigInt(0);
+  let nextCleanableAt: number | null = null;
+
+  for (const order of orders) {
+    if (!order) continue;
+    const gracePeriodEnd = getGracePeriodEnd(
+      { createdAt: order.timestamp },
+      timing
+    );
+    if (now <= gracePeriodEnd) {
+      nextCleanableAt = gracePeriodEnd + 1;
+      break;
+    }
+    cleanable.push(order);
+    reward += order.orderCreationFee;
+  }
+
+  return { orders: cleanable, reward, nextCleanableAt };
+}
+
+// True when the reward exceeds the gas cost by at least margin percent.
+// Without a gas estimate the call would likely revert, so it is skipped.
+export function isCleanupProfitable(
+  estimate: CleanupEstimate,
+  margin: number
+): boolean {
+  if (estimate.orders.length === 0 || estimate.gasCost === null) return false;
+  return (
+    estimate.reward * BigInt(100) >
+    estimate.gasCost * BigInt(Math.round(100 + margin))
+  );
+}
@@ -0,0 +1,249 @@
+import { ethers } from "ethers";
+import { OTCErrorCode } from "@/types";
+
+const ERROR_INFO: Record<
+  OTCErrorCode,
+  { message: string; remediation?: string }
+> = {
+  NO_SIGNER: {
+    message: "No wallet connected",
+    remediation: "Connect a wallet and try again.",
+  },
+  USER_REJECTED: { message: "Transaction was rejected in the wallet" },
+  INSUFFICIENT_FUNDS: {
+    message: "Not enough native currency for gas and fees",
+    remediation: "Top up your wallet and try again.",
+  },
+  NETWORK: {
+    message: "Could not reach the network",
+    remediation: "Check your connection or RPC endpoint and try again.",
+  },
+  ORDER_NOT_FOUND: {
+    message: "Order does not exist",
+    remediation: "It may have been cleaned up. Refresh the order book.",
+  },
+  ORDER_NOT_ACTIVE: {
+    message: "Order is no longer active",
+    remediation: "It was already filled or canceled. Refresh the order book.",
+  },
+  ORDER_MISMATCH: {
+    message: "Order terms differ from the on-chain order",
+    remediation: "Refresh the order book and review the order again.",
+  },
+  ORDER_EXPIRED: {
+    message: "Order has expired",
+    remediation: "Expired orders can no longer be filled.",
+  },
+  NOT_AUTHORIZED: {
+    message: "Only the designated taker can fill this order",
+    remediation: "Switch to the taker's account in your wallet.",
+  },
+  NOT_MAKER: {
+    message: "Only the maker can cancel this order",
+    remediation: "Switch to the maker's account in your wallet.",
+  },
+  GRACE_PERIOD_EXPIRED: {
+    message: "The grace period for canceling has ended",
+    remediation: "The tokens are returned to the maker when it is cleaned up.",
+  },
+  INVALID_TOKEN: { message: "Invalid token address" },
+  SAME_TOKEN: { message: "Cannot swap a token for itself" },
+  INVALID_AMOUNT: { message: "Amount must be greater than zero" },
+  INSUFFICIENT_BALANCE: {
+    message: "Insufficient token balance",
+    remediation: "Lower the amount or top up the token.",
+  },
+  INSUFFICIENT_ALLOWANCE: {
+    message: "The OTC contract is not approved to spend this token",
+    remediation: "Approve the token and try again.",
+  },
+  FEE_TOO_LOW: {
+    message: "Order creation fee is too low",
+    remediation: "The fee changed since it was read. Try again.",
+  },
+  FEE_TOO_HIGH: {
+    message: "Order creation fee is too high",
+    remediation: "The fee changed since it was read. Try again.",
+  },
+  FEE_TRANSFER_FAILED: { message: "Cleanup reward transfer failed" },
+  MAX_RETRIES_REACHED: { message: "Order cleanup was retried too many times" },
+  TOKEN_TRANSFER_FAILED: {
+    message: "Token transfer failed",
+    remediation:
+      "The token may be paused, blocklist addresses or charge transfer fees.",
+  },
+  REENTRANT_CALL: { message: "The contract rejected a reentrant call" },
+  UNKNOWN: { message: "Unexpected error" },
+};
+
+// Revert strings from the contract. The client's own pre-flight checks throw
+// the same codes so both paths read the same.
+const REVERT_REASONS: Record<string, OTCErrorCode> = {
+  "Order does not exist": "ORDER_NOT_FOUND",
+  "Order is not active": "ORDER_NOT_ACTIVE",
+  "Invalid sell token": "INVALID_TOKEN",
+  "Invalid buy token": "INVALID_TOKEN",
+  "Invalid sell amount": "INVALID_AMOUNT",
+  "Invalid buy amount": "INVALID_AMOUNT",
+  "Cannot swap same token": "SAME_TOKEN",
+  "Insufficient balance for sell token": "INSUFFICIENT_BALANCE",
+  "Insufficient balance for buy token": "INSUFFICIENT_BALANCE",
+  "Insufficient allowance for sell token": "INSUFFICIENT_ALLOWANCE",
+  "Insufficient allowance for buy token": "INSUFFICIENT_ALLOWANCE",
+  "Order has expired": "ORDER_EXPIRED",
+  "Not authorized to fill this order": "NOT_AUTHORIZED",
+  "Only maker can cancel order": "NOT_MAKER",
+  "Grace period has expired": "GRACE_PERIOD_EXPIRED",
+  "Fee too low": "FEE_TOO_LOW",
+  "Fee too high": "FEE_TOO_HIGH",
+  "Fee transfer failed": "FEE_TRANSFER_FAILED",
+  "Max retries reached": "MAX_RETRIES_REACHED",
+};
+
+const CUSTOM_ERRORS: Record<string, OTCErrorCode> = {
+  ReentrancyGuardReentrantCall: "REENTRANT_CALL",
+  SafeERC20FailedOperation: "TOKEN_TRANSFER_FAILED",
+};
+
+interface OTCErrorOptions {
+  // What the user was doing, e.g. "fill order"
+  action?: string;
+  // Token named by the revert, for SafeERC20FailedOperation
+  token?: string;
+  // Original message for errors that have no specific code
+  detail?: string;
+  cause?: unknown;
+}
+
+class OTCError extends Error {
+  code: OTCErrorCode;
+  action?: string;
+  token?: string;
+  remediation?: string;
+
+  constructor(code: OTCErrorCode, options: OTCErrorOptions = {}) {
+    const info = ERROR_INFO[code];
+    super(options.detail ?? info.message, { cause: options.cause });
+    this.name = "OTCError";
+    this.code = code;
+    this.action = options.action;
+    this.token = options.token;
+    this.remediation = info.remediation;
+  }
+}
+
+type DecodedRevert = { code: OTCErrorCode; token?: string; detail?: string };
+
+function fromRevert(name: string, args: ethers.Result | unknown[]) {
+  if (name === "Error") {
+    const reason = String(args[0]);
+    const code = REVERT_REASONS[reason];
+    return code ? { code } : { code: "UNKNOWN" as const, detail: reason };
+  }
+  const code = CUSTOM_ERRORS[name];
+  if (!code) return { code: "UNKNOWN" as const, detail: `Reverted: ${name}` };
+  return {
+    code,
+    token: code === "TOKEN_TRANSFER_FAILED" ? args[0] : undefined,
+  };
+}
+
+// Wallets and RPC providers nest the revert data at different depths
+function findRevertData(error: unknown, depth = 0): string | null {
+  if (!error || typeof error !== "object" || depth > 4) return null;
+  const {
+    data,
+    error: inner,
+    info,
+    cause,
+  } = error as {
+    data?: unknown;
+    error?: unknown;
+    info?: { error?: unknown };
+    cause?: unknown;
+  };
+  if (
+    typeof data === "string" &&
+    ethers.isHexString(data) &&
+    data.length >= 10
+  ) {
+    return data;
+  }
+  return (
+    findRevertData(data, depth + 1) ??
+    findRevertData(inner, depth + 1) ??
+    findRevertData(info?.error, depth + 1) ??
+    findRevertData(cause, depth + 1)
+  );
+}
+
+function decodeRevert(
+  error: unknown,
+  iface?: ethers.Interface
+): DecodedRevert | null {
+  if (ethers.isError(error, "CALL_EXCEPTION")) {
+    if (error.revert) return fromRevert(error.revert.name, error.revert.args);
+    if (error.reason) return fromRevert("Error", [error.reason]);
+  }
+
+  const data = findRevertData(error);
+  if (!data || !iface) return null;
+  try {
+    const parsed = iface.parseError(data);
+    return parsed ? fromRevert(parsed.name, parsed.args) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Normalizes anything thrown by ethers, the wallet or the client itself
+export function toOTCError(
+  error: unknown,
+  action?: string,
+  iface?: ethers.Interface
+): OTCError {
+  if (error instanceof OTCError) {
+    error.action ??= action;
+    return error;
+  }
+  if (ethers.isError(error, "ACTION_REJECTED")) {
+    return new OTCError("USER_REJECTED", { action, cause: error });
+  }
+  if (ethers.isError(error, "INSUFFICIENT_FUNDS")) {
+    return new OTCError("INSUFFICIENT_FUNDS", { action, cause: error });
+  }
+  if (
+    ethers.isError(error, "NETWORK_ERROR") ||
+    ethers.isError(error, "TIMEOUT") ||
+    ethers.isError(error, "SERVER_ERROR")
+  ) {
+    return new OTCError("NETWORK", { action, cause: error });
+  }
+
+  const decoded = decodeRevert(error, iface);
+  if (decoded)
+    return new OTCError(decoded.code, { ...decoded, action, cause: error });
+
+  const message =
+    error instanceof Error
+      ? ((error as { shortMessage?: string }).shortMessage ?? error.message)
+      : String(error);
+  const code = REVERT_REASONS[message];
+  return new OTCError(code ?? "UNKNOWN", {
+    action,
+    detail: code ? undefined : message,
+    cause: error,
+  });
+}
+
+// One line for toasts and alerts: the reason plus what to do about it
+export function describeError(error: unknown): string {
+  const otcError = toOTCError(error);
+  const message = otcError.token
+    ? `${otcError.message} (${otcError.token})`
+    : otcError.message;
+  return otcError.remediation ? `${message}. ${otcError.remediation}` : message;
+}
+
+export type { OTCErrorOptions };
+export default OTCError;
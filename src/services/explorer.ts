@@ -0,0 +1,16 @@
+import { Chain } from "wagmi/chains";
+import { config } from "@/wagmi";
+import { getDeployment } from "@/deployments";
+
+export function getExplorerUrl(
+  chainId: number,
+  type: "tx" | "address",
+  value: string
+): string | null {
+  const chain: Chain | undefined = config.chains.find(
+    (chain) => chain.id === chainId
+  );
+  const baseUrl =
+    getDeployment(chainId)?.explorerUrl ?? chain?.blockExplorers?.default.url;
+  return baseUrl ? `${baseUrl}/${type}/${value}` : null;
+}
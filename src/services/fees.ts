@@ -0,0 +1,67 @@
+import {
+  FeeHistoryEntry,
+  FeeParameters,
+  FeeQuote,
+  IndexedOrder,
+} from "@/types";
+
+export const DEFAULT_FEE_MARGIN = 10;
+
+// Used when the constants cannot be read, matching the README
+export const DEFAULT_FEE_PARAMETERS: FeeParameters = {
+  minFeePercentage: 90,
+  maxFeePercentage: 150,
+};
+
+// The fee sent must stay within the window for the fee at mining time, so a
+// margin above 100% of the current fee absorbs increases from orders mined
+// first while never exceeding what the contract accepts right now
+export const getMaxFeeMargin = (params: FeeParameters) =>
+  params.maxFeePercentage - 100;
+
+export function getFeeQuote(
+  currentFee: bigint,
+  params: FeeParameters,
+  margin: number
+): FeeQuote {
+  const clamped = Math.min(Math.max(margin, 0), getMaxFeeMargin(params));
+  const minFee = (currentFee * BigInt(params.minFeePercentage)) / BigInt(100);
+  const maxFee = (currentFee * BigInt(params.maxFeePercentage)) / BigInt(100);
+  const fee =
+    (currentFee * BigInt(Math.round((100 + clamped) * 100))) / BigInt(10000);
+
+  return {
+    currentFee,
+    minFee,
+    maxFee,
+    fee: fee > maxFee ? maxFee : fee,
+    margin: clamped,
+  };
+}
+
+// Fees recorded by OrderCreated, oldest first, keeping only the orders where
+// the fee changed. Retried copies reuse the original fee and are skipped.
+export function getFeeHistory(orders: IndexedOrder[]): FeeHistoryEntry[] {
+  const created = orders
+    .filter((order) => order.retriedFrom === undefined)
+    .sort((a, b) => a.orderId - b.orderId);
+
+  const entries: FeeHistoryEntry[] = [];
+  for (const order of created) {
+    const previous = entries[entries.length - 1];
+    if (previous && previous.fee === order.orderCreationFee) continue;
+
+    const fee = BigInt(order.orderCreationFee);
+    const previousFee = previous ? BigInt(previous.fee) : null;
+    entries.push({
+      orderId: order.orderId,
+      timestamp: order.createdAt,
+      fee: order.orderCreationFee,
+      change:
+        previousFee && previousFee > 0
+          ? (Number(fee - previousFee) / Number(previousFee)) * 100
+          : null,
+    });
+  }
+  return entries;
+}
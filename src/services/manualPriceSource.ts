@@ -0,0 +1,65 @@
+import { PriceSource, PriceToken } from "@/types";
+import {
+  KeyValueStorage,
+  getDefaultStorage,
+  readJSON,
+  writeJSON,
+} from "@/services/storage";
+
+const MANUAL_PRICES_KEY_PREFIX = "otc-swap:manual-prices";
+
+// Quote per base, keyed by "base:quote" with lowercase addresses
+type PriceTable = Record<string, number>;
+
+interface ManualPriceSourceOptions {
+  storage?: KeyValueStorage;
+  // Fixed prices, e.g. for tests or offline demos; user-entered prices win
+  fixtures?: PriceTable;
+}
+
+const pairKey = (base: string, quote: string) =>
+  `${base.toLowerCase()}:${quote.toLowerCase()}`;
+
+// Reference prices entered by the user, persisted per chain. Works offline.
+class ManualPriceSource implements PriceSource {
+  readonly id = "manual";
+  readonly name = "Manual";
+  private storage: KeyValueStorage;
+  private storageKey: string;
+  private fixtures: PriceTable;
+
+  constructor(chainId: number, options: ManualPriceSourceOptions = {}) {
+    this.storage = options.storage ?? getDefaultStorage();
+    this.storageKey = `${MANUAL_PRICES_KEY_PREFIX}:${chainId}`;
+    this.fixtures = Object.fromEntries(
+      Object.entries(options.fixtures ?? {}).map(([key, price]) => [
+        key.toLowerCase(),
+        price,
+      ])
+    );
+  }
+
+  async getPrice(base: PriceToken, quote: PriceToken): Promise<number | null> {
+    const prices = { ...this.fixtures, ...this.readPrices() };
+    const direct = prices[pairKey(base.address, quote.address)];
+    if (direct > 0) return direct;
+    const inverse = prices[pairKey(quote.address, base.address)];
+    return inverse > 0 ? 1 / inverse : null;
+  }
+
+  // Stores quote per base; a non-positive price clears the entry
+  setPrice(base: string, quote: string, price: number) {
+    const prices = this.readPrices();
+    delete prices[pairKey(quote, base)];
+    if (price > 0) prices[pairKey(base, quote)] = price;
+    else delete prices[pairKey(base, quote)];
+    writeJSON(this.storage, this.storageKey, prices);
+  }
+
+  private readPrices(): PriceTable {
+    return readJSON<PriceTable>(this.storage, this.storageKey) ?? {};
+  }
+}
+
+export type { ManualPriceSourceOptions };
+export default ManualPriceSource;
@@ -0,0 +1,47 @@
+import { ethers } from "ethers";
+import { OnChainOrder, OnChainOrderStatus } from "@/types";
+
+// Indexed by the uint8 value of OTCSwap.OrderStatus
+export const ON_CHAIN_ORDER_STATUSES: OnChainOrderStatus[] = [
+  "Active",
+  "Filled",
+  "Canceled",
+];
+
+// Decodes the orders(uint256) result; returns null for IDs that were never
+// created or have already been cleaned up
+export function decodeOnChainOrder(
+  orderId: number,
+  result: ethers.Result
+): OnChainOrder | null {
+  const [
+    maker,
+    taker,
+    sellToken,
+    sellAmount,
+    buyToken,
+    buyAmount,
+    timestamp,
+    status,
+    orderCreationFee,
+    tries,
+  ] = result;
+  if (maker === ethers.ZeroAddress) return null;
+
+  const decodedStatus = ON_CHAIN_ORDER_STATUSES[Number(status)];
+  if (!decodedStatus) throw new Error(`Unknown order status ${status}`);
+
+  return {
+    orderId,
+    maker,
+    taker,
+    sellToken,
+    sellAmount: BigInt(sellAmount),
+    buyToken,
+    buyAmount: BigInt(buyAmount),
+    timestamp: Number(timestamp),
+    status: decodedStatus,
+    orderCreationFee: BigInt(orderCreationFee),
+    tries: Number(tries),
+  };
+}
@@ -0,0 +1,170 @@
+import { ethers } from "ethers";
+import { IndexedOrder, OrderEvent } from "@/types";
+
+export const ORDER_EVENT_NAMES = [
+  "OrderCreated",
+  "OrderFilled",
+  "OrderCanceled",
+  "OrderCleanedUp",
+  "RetryOrder",
+] as const;
+
+export function parseOrderEvent(
+  iface: ethers.Interface,
+  log: ethers.Log
+): OrderEvent | null {
+  const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed) return null;
+
+  const { args } = parsed;
+  const meta = {
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    transactionHash: log.transactionHash,
+  };
+
+  switch (parsed.name) {
+    case "OrderCreated":
+      return {
+        ...meta,
+        name: "OrderCreated",
+        orderId: Number(args.orderId),
+        maker: args.maker,
+        taker: args.taker,
+        sellToken: args.sellToken,
+        sellAmount: args.sellAmount.toString(),
+        buyToken: args.buyToken,
+        buyAmount: args.buyAmount.toString(),
+        timestamp: Number(args.timestamp),
+        orderCreationFee: args.orderCreationFee.toString(),
+      };
+    case "OrderFilled":
+      return {
+        ...meta,
+        name: "OrderFilled",
+        orderId: Number(args.orderId),
+        maker: args.maker,
+        taker: args.taker,
+        timestamp: Number(args.timestamp),
+      };
+    case "OrderCanceled":
+    case "OrderCleanedUp":
+      return {
+        ...meta,
+        name: parsed.name,
+        orderId: Number(args.orderId),
+        maker: args.maker,
+        timestamp: Number(args.timestamp),
+      };
+    case "RetryOrder":
+      return {
+        ...meta,
+        name: "RetryOrder",
+        oldOrderId: Number(args.oldOrderId),
+        newOrderId: Number(args.newOrderId),
+        maker: args.maker,
+        tries: Number(args.tries),
+        timestamp: Number(args.timestamp),
+      };
+    default:
+      return null;
+  }
+}
+
+export function compareOrderEvents(a: OrderEvent, b: OrderEvent): number {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
+
+// Applies a single event to the order map in place. Records are replaced
+// rather than mutated so a shallow copy of the map is enough to branch state.
+export function applyOrderEvent(
+  orders: Record<string, IndexedOrder>,
+  event: OrderEvent
+): Record<string, IndexedOrder> {
+  const lifecycle = {
+    timestamp: event.timestamp,
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+  };
+
+  // Every case is idempotent: the same log may arrive through both a sync and
+  // a live subscription.
+  switch (event.name) {
+    case "OrderCreated":
+      if (orders[event.orderId]) break;
+      orders[event.orderId] = {
+        orderId: event.orderId,
+        maker: event.maker,
+        taker: event.taker,
+        sell: { token: event.sellToken, amount: event.sellAmount },
+        buy: { token: event.buyToken, amount: event.buyAmount },
+        createdAt: event.timestamp,
+        orderCreationFee: event.orderCreationFee,
+        isActive: true,
+        tries: 0,
+        created: lifecycle,
+      };
+      break;
+    case "OrderFilled": {
+      const order = orders[event.orderId];
+      if (order) {
+        orders[event.orderId] = {
+          ...order,
+          isActive: false,
+          filled: { ...lifecycle, taker: event.taker },
+        };
+      }
+      break;
+    }
+    case "OrderCanceled": {
+      const order = orders[event.orderId];
+      if (order) {
+        orders[event.orderId] = {
+          ...order,
+          isActive: false,
+          canceled: lifecycle,
+        };
+      }
+      break;
+    }
+    case "OrderCleanedUp": {
+      const order = orders[event.orderId];
+      if (order) {
+        orders[event.orderId] = {
+          ...order,
+          isActive: false,
+          cleanedUp: lifecycle,
+        };
+      }
+      break;
+    }
+    case "RetryOrder": {
+      // The contract resets an order it failed to clean up under a new ID,
+      // so the old record is closed and its terms move to the new one.
+      const order = orders[event.oldOrderId];
+      if (order && order.retriedAs === undefined) {
+        orders[event.oldOrderId] = {
+          ...order,
+          isActive: false,
+          retriedAs: event.newOrderId,
+        };
+        orders[event.newOrderId] = {
+          orderId: event.newOrderId,
+          maker: order.maker,
+          taker: order.taker,
+          sell: order.sell,
+          buy: order.buy,
+          createdAt: event.timestamp,
+          orderCreationFee: order.orderCreationFee,
+          isActive: true,
+          tries: event.tries,
+          created: lifecycle,
+          retriedFrom: event.oldOrderId,
+        };
+      }
+      break;
+    }
+  }
+
+  return orders;
+}
@@ -0,0 +1,112 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_ORDER_FILTERS,
+  applyOrderFilters,
+  paginate,
+} from "@/services/orderFilters";
+import { Order } from "@/types";
+
+const SELL = "0x0000000000000000000000000000000000000002";
+const BUY = "0x0000000000000000000000000000000000000003";
+const OTHER = "0x0000000000000000000000000000000000000004";
+
+const makeOrder = (
+  orderId: number,
+  sellToken: string,
+  sellAmount: number
+): Order => ({
+  orderId,
+  maker: "0x0000000000000000000000000000000000000001",
+  taker: "0x0000000000000000000000000000000000000000",
+  sell: { token: sellToken, amount: String(sellAmount) },
+  buy: { token: BUY, amount: "1" },
+  createdAt: 1700000000 + orderId,
+  orderCreationFee: "0",
+  isActive: true,
+});
+
+describe("paginate", () => {
+  const items = [1, 2, 3, 4, 5];
+
+  it("cuts a page and points at the next one", () => {
+    assert.deepEqual(paginate(items, 0, 2), {
+      items: [1, 2],
+      pagination: { offset: 0, total: 5, hasMore: true, nextOffset: 2 },
+    });
+    assert.deepEqual(paginate(items, 4, 2), {
+      items: [5],
+      pagination: { offset: 4, total: 5, hasMore: false, nextOffset: 5 },
+    });
+  });
+
+  it("returns everything after the offset without a limit", () => {
+    assert.deepEqual(paginate(items, 1).items, [2, 3, 4, 5]);
+    assert.equal(paginate(items).pagination.hasMore, false);
+  });
+
+  it("returns an empty page past the end", () => {
+    const { items: page, pagination } = paginate(items, 10, 2);
+    assert.deepEqual(page, []);
+    assert.equal(pagination.hasMore, false);
+  });
+});
+
+describe("filtering before paginating", () => {
+  const orders = [
+    makeOrder(1, SELL, 10),
+    makeOrder(2, OTHER, 1000),
+    makeOrder(3, SELL, 30),
+    makeOrder(4, SELL, 20),
+    makeOrder(5, OTHER, 500),
+  ];
+
+  it("pages through the filtered and sorted book", () => {
+    const sorted = applyOrderFilters(
+      orders,
+      { ...DEFAULT_ORDER_FILTERS, sellToken: SELL, sort: "size" },
+      { timing: null, sellDecimals: 0 }
+    );
+    const first = paginate(sorted, 0, 2);
+    assert.deepEqual(
+      first.items.map((order) => order.orderId),
+      [3, 4]
+    );
+    assert.equal(first.pagination.total, 3);
+    const second = paginate(sorted, first.pagination.nextOffset, 2);
+    assert.deepEqual(
+      second.items.map((order) => order.orderId),
+      [1]
+    );
+    assert.equal(second.pagination.hasMore, false);
+  });
+
+  it("sorts by age, newest first, by default", () => {
+    const sorted = applyOrderFilters(orders, DEFAULT_ORDER_FILTERS, {
+      timing: null,
+    });
+    assert.deepEqual(
+      paginate(sorted, 0, 3).items.map((order) => order.orderId),
+      [5, 4, 3]
+    );
+  });
+});
+
+describe("expiresWithin", () => {
+  const timing = { orderExpiry: 7 * 86400, gracePeriod: 7 * 86400 };
+  // Created 1..5 seconds after 1700000000, so expiring at those offsets
+  const now = 1700000000 + timing.orderExpiry + 3;
+
+  it("keeps orders expiring soon and drops those already expired", () => {
+    const orders = [1, 2, 3, 4, 5].map((id) => makeOrder(id, SELL, 1));
+    const within = applyOrderFilters(
+      orders,
+      { ...DEFAULT_ORDER_FILTERS, expiresWithin: 1 },
+      { timing, now }
+    );
+    assert.deepEqual(
+      within.map((order) => order.orderId),
+      [4, 3]
+    );
+  });
+});
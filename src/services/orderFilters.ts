@@ -0,0 +1,179 @@
+import { ethers } from "ethers";
+import {
+  Order,
+  OrderAccess,
+  OrderFilters,
+  OrderSort,
+  OrderTiming,
+  Pagination,
+} from "@/types";
+import { getExpiryTime } from "@/services/orderStatus";
+import { getPrice } from "@/services/pricing";
+
+export const DEFAULT_ORDER_FILTERS: OrderFilters = {
+  sellToken: null,
+  buyToken: null,
+  maker: null,
+  access: "any",
+  minSize: null,
+  expiresWithin: null,
+  sort: "age",
+};
+
+const ACCESS_VALUES: OrderAccess[] = ["any", "public", "mine"];
+const SORT_VALUES: OrderSort[] = ["age", "expiry", "price", "size"];
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+const addressParam = (value: string | null) =>
+  value && ethers.isAddress(value) ? ethers.getAddress(value) : null;
+
+// Unknown or malformed values fall back to the defaults, so a hand-edited
+// link still opens
+export function parseOrderFilters(params: URLSearchParams): OrderFilters {
+  const access = params.get("access") as OrderAccess;
+  const sort = params.get("sort") as OrderSort;
+  const minSize = params.get("min");
+  const expiresWithin = Number(params.get("expires"));
+
+  return {
+    sellToken: addressParam(params.get("sell")),
+    buyToken: addressParam(params.get("buy")),
+    maker: addressParam(params.get("maker")),
+    access: ACCESS_VALUES.includes(access) ? access : "any",
+    minSize: minSize && Number(minSize) > 0 ? minSize : null,
+    expiresWithin: expiresWithin > 0 ? expiresWithin : null,
+    sort: SORT_VALUES.includes(sort) ? sort : "age",
+  };
+}
+
+// Only non-default values are written, keeping bookmarked URLs short
+export function toSearchParams(filters: OrderFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.sellToken) params.set("sell", filters.sellToken);
+  if (filters.buyToken) params.set("buy", filters.buyToken);
+  if (filters.maker) params.set("maker", filters.maker);
+  if (filters.access !== "any") params.set("access", filters.access);
+  if (filters.minSize) params.set("min", filters.minSize);
+  if (filters.expiresWithin) {
+    params.set("expires", String(filters.expiresWithin));
+  }
+  if (filters.sort !== "age") params.set("sort", filters.sort);
+  return params;
+}
+
+interface OrderFilterContext {
+  account?: string;
+  timing: OrderTiming | null;
+  // Decimals of the filtered sell and buy tokens, needed for the size
+  // filter and for price sorting
+  sellDecimals?: number;
+  buyDecimals?: number;
+  now?: number;
+}
+
+// Price and size only compare within one pair, so they apply once the
+// tokens are filtered and fall back to age otherwise
+export function applyOrderFilters(
+  orders: Order[],
+  filters: OrderFilters,
+  context: OrderFilterContext
+): Order[] {
+  const {
+    account,
+    timing,
+    sellDecimals,
+    buyDecimals,
+    now = Math.floor(Date.now() / 1000),
+  } = context;
+
+  let minSize: bigint | null = null;
+  if (filters.minSize && filters.sellToken && sellDecimals !== undefined) {
+    try {
+      minSize = ethers.parseUnits(filters.minSize, sellDecimals);
+    } catch {
+      minSize = null;
+    }
+  }
+
+  const filtered = orders.filter((order) => {
+    if (filters.sellToken && !sameAddress(order.sell.token, filters.sellToken))
+      return false;
+    if (filters.buyToken && !sameAddress(order.buy.token, filters.buyToken))
+      return false;
+    if (filters.maker && !sameAddress(order.maker, filters.maker)) return false;
+    if (filters.access === "public" && order.taker !== ethers.ZeroAddress)
+      return false;
+    if (
+      filters.access === "mine" &&
+      !(account && sameAddress(order.taker, account))
+    )
+      return false;
+    if (minSize !== null && BigInt(order.sell.amount) < minSize) return false;
+    // Already expired orders are in their grace period, not expiring soon
+    if (filters.expiresWithin && timing) {
+      const expiry = getExpiryTime(order, timing);
+      if (expiry < now || expiry - now > filters.expiresWithin) return false;
+    }
+    return true;
+  });
+
+  const byAge = (a: Order, b: Order) =>
+    b.createdAt - a.createdAt || b.orderId - a.orderId;
+  const samePair = !!filters.sellToken && !!filters.buyToken;
+
+  switch (filters.sort) {
+    // Every order lives ORDER_EXPIRY seconds, so the oldest expires first
+    case "expiry":
+      return filtered.sort((a, b) => -byAge(a, b));
+    case "price":
+      if (!samePair || sellDecimals === undefined || buyDecimals === undefined)
+        return filtered.sort(byAge);
+      // Taker pays the buy amount for the sell amount: lowest ratio first
+      return filtered.sort(
+        (a, b) =>
+          getPrice(
+            BigInt(a.sell.amount),
+            BigInt(a.buy.amount),
+            sellDecimals,
+            buyDecimals
+          ) -
+            getPrice(
+              BigInt(b.sell.amount),
+              BigInt(b.buy.amount),
+              sellDecimals,
+              buyDecimals
+            ) || byAge(a, b)
+      );
+    case "size":
+      if (!filters.sellToken) return filtered.sort(byAge);
+      return filtered.sort((a, b) => {
+        const diff = BigInt(b.sell.amount) - BigInt(a.sell.amount);
+        return diff > 0 ? 1 : diff < 0 ? -1 : byAge(a, b);
+      });
+    default:
+      return filtered.sort(byAge);
+  }
+}
+
+// Offset pagination over an already filtered and sorted list
+export function paginate<T>(
+  items: T[],
+  offset = 0,
+  limit?: number
+): { items: T[]; pagination: Pagination } {
+  const start = Math.max(offset, 0);
+  const end = limit === undefined ? items.length : start + Math.max(limit, 0);
+  const page = items.slice(start, end);
+  const nextOffset = start + page.length;
+  return {
+    items: page,
+    pagination: {
+      offset: start,
+      total: items.length,
+      hasMore: nextOffset < items.length,
+      nextOffset,
+    },
+  };
+}
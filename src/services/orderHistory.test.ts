@@ -0,0 +1,123 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import OTCSwap from "@/services/abi/OTCSwap.json";
+import OrderIndexer from "@/services/orderIndexer";
+import { fetchOrderHistory } from "@/services/orderHistory";
+import { createMemoryStorage } from "@/services/storage";
+import { OrderTiming } from "@/types";
+
+const DAY = 24 * 60 * 60;
+const HEAD = 100;
+const CONTRACT = "0x00000000000000000000000000000000000000aa";
+const MAKER = "0x0000000000000000000000000000000000000001";
+const SELL = "0x0000000000000000000000000000000000000002";
+const BUY = "0x0000000000000000000000000000000000000003";
+
+const timing: OrderTiming = { orderExpiry: 7 * DAY, gracePeriod: 7 * DAY };
+const iface = new ethers.Interface(OTCSwap.abi);
+// One block a day, the head mined now
+const now = Math.floor(Date.now() / 1000);
+const timestampOf = (block: number) => now - (HEAD - block) * DAY;
+
+const makeLog = (
+  blockNumber: number,
+  name: string,
+  values: unknown[]
+): ethers.Log => {
+  const { topics, data } = iface.encodeEventLog(name, values);
+  return {
+    address: CONTRACT,
+    blockNumber,
+    index: 0,
+    transactionHash: ethers.toBeHex(blockNumber, 32),
+    topics,
+    data,
+  } as unknown as ethers.Log;
+};
+
+const matchesTopics = (log: ethers.Log, topics: ethers.TopicFilter) =>
+  topics.every((topic, i) => {
+    if (topic === null || topic === undefined) return true;
+    return Array.isArray(topic)
+      ? topic.includes(log.topics[i])
+      : topic === log.topics[i];
+  });
+
+function createChain(logs: ethers.Log[]) {
+  const provider = {
+    getBlockNumber: async () => HEAD,
+    getNetwork: async () => ({ chainId: BigInt(31337) }),
+    getBlock: async (block: number) => ({ timestamp: timestampOf(block) }),
+    getLogs: async (filter: ethers.Filter) =>
+      logs.filter(
+        (log) =>
+          log.blockNumber >= Number(filter.fromBlock) &&
+          log.blockNumber <= Number(filter.toBlock) &&
+          matchesTopics(log, filter.topics ?? [])
+      ),
+  } as unknown as ethers.Provider;
+  const indexer = new OrderIndexer(provider, CONTRACT, iface, {
+    storage: createMemoryStorage(),
+  });
+  return { provider, indexer };
+}
+
+describe("fetchOrderHistory", () => {
+  // Order 1 was created long before the indexed window and retried twice;
+  // only order 3 is still stored on-chain.
+  const logs = [
+    makeLog(50, "OrderCreated", [
+      1,
+      MAKER,
+      ethers.ZeroAddress,
+      SELL,
+      10,
+      BUY,
+      20,
+      timestampOf(50),
+      0,
+    ]),
+    makeLog(70, "RetryOrder", [1, 2, MAKER, 1, timestampOf(70)]),
+    makeLog(90, "RetryOrder", [2, 3, MAKER, 2, timestampOf(90)]),
+  ];
+  const storedOrder = [
+    MAKER,
+    ethers.ZeroAddress,
+    SELL,
+    10,
+    BUY,
+    20,
+    timestampOf(90),
+    0,
+    0,
+    2,
+  ];
+  const emptyOrder = [ethers.ZeroAddress, ...storedOrder.slice(1)];
+  const contract = {
+    interface: iface,
+    orders: async (id: number) => (id === 3 ? storedOrder : emptyOrder),
+  } as unknown as ethers.Contract;
+
+  it("finds the creation of a retried order before the indexed window", async () => {
+    const { provider, indexer } = createChain(logs);
+    assert.ok((await indexer.getStartBlock()) > 70);
+
+    const history = await fetchOrderHistory(
+      provider,
+      contract,
+      indexer,
+      timing,
+      3
+    );
+    assert.deepEqual(history.orderIds, [1, 2, 3]);
+    assert.deepEqual(
+      history.entries.map((entry) => entry.name),
+      ["OrderCreated", "RetryOrder", "RetryOrder"]
+    );
+    assert.equal(history.order?.orderId, 3);
+    assert.equal(history.order?.retriedFrom, 2);
+    assert.equal(history.order?.sell.amount, "10");
+    assert.equal(history.order?.tries, 2);
+  });
+});
@@ -0,0 +1,161 @@
+import { ethers } from "ethers";
+import {
+  IndexedOrder,
+  OrderEvent,
+  OrderHistory,
+  OrderHistoryEntry,
+  OrderTiming,
+} from "@/types";
+import OrderIndexer from "@/services/orderIndexer";
+import { decodeOnChainOrder } from "@/services/onChainOrder";
+import {
+  applyOrderEvent,
+  compareOrderEvents,
+  parseOrderEvent,
+} from "@/services/orderBook";
+
+// Events whose first indexed topic is the order ID (oldOrderId for RetryOrder)
+const ORDER_ID_EVENTS = [
+  "OrderCreated",
+  "OrderFilled",
+  "OrderCanceled",
+  "OrderCleanedUp",
+  "RetryOrder",
+  "CleanupError",
+];
+
+const toTopic = (orderId: number) => ethers.toBeHex(orderId, 32);
+
+function toHistoryEntry(
+  iface: ethers.Interface,
+  log: ethers.Log
+): OrderHistoryEntry | null {
+  const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed) return null;
+  const { args } = parsed;
+
+  return {
+    name: parsed.name as OrderHistoryEntry["name"],
+    orderId: Number(
+      parsed.name === "RetryOrder" ? args.oldOrderId : args.orderId
+    ),
+    timestamp: Number(args.timestamp),
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    transactionHash: log.transactionHash,
+    taker: parsed.name === "OrderFilled" ? args.taker : undefined,
+    newOrderId:
+      parsed.name === "RetryOrder" ? Number(args.newOrderId) : undefined,
+    tries: parsed.name === "RetryOrder" ? Number(args.tries) : undefined,
+    reason: parsed.name === "CleanupError" ? args.reason : undefined,
+  };
+}
+
+// Reconstructs the full lifecycle of an order, following RetryOrder links in
+// both directions so the history reads the same from any ID in the chain.
+export async function fetchOrderHistory(
+  provider: ethers.Provider,
+  contract: ethers.Contract,
+  indexer: OrderIndexer,
+  timing: OrderTiming,
+  orderId: number
+): Promise<OrderHistory> {
+  const iface = contract.interface;
+  const head = await provider.getBlockNumber();
+  const indexedFrom = await indexer.getStartBlock();
+  const lifetime = timing.orderExpiry + timing.gracePeriod;
+
+  const idTopics = ORDER_ID_EVENTS.map(
+    (name) => iface.getEvent(name)!.topicHash
+  );
+  const retryTopic = iface.getEvent("RetryOrder")!.topicHash;
+
+  const logs = new Map<string, ethers.Log>();
+  const visited = new Set<number>();
+  const pending = [orderId];
+  // Creation times learned from RetryOrder events, for IDs no longer stored
+  const createdAt = new Map<number, number>();
+  // Retries happen at cleanup, so the old order was created at least one
+  // lifetime (ORDER_EXPIRY + GRACE_PERIOD) before its RetryOrder
+  const createdBefore = new Map<number, number>();
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+
+    // Orders still stored on-chain may predate the indexed window
+    const stored = await contract
+      .orders(id)
+      .then((result: ethers.Result) => decodeOnChainOrder(id, result))
+      .catch(() => null);
+    const since =
+      stored?.timestamp ?? createdAt.get(id) ?? createdBefore.get(id);
+    let fromBlock =
+      since === undefined
+        ? indexedFrom
+        : Math.min(
+            indexedFrom,
+            await indexer.findBlockByTimestamp(since, head)
+          );
+    let toBlock = head;
+    let created = false;
+
+    for (;;) {
+      const [ownLogs, retriedInto] = await Promise.all([
+        indexer.fetchLogs([idTopics, toTopic(id)], fromBlock, toBlock),
+        indexer.fetchLogs([retryTopic, null, toTopic(id)], fromBlock, toBlock),
+      ]);
+
+      for (const log of [...ownLogs, ...retriedInto]) {
+        logs.set(`${log.transactionHash}:${log.index}`, log);
+        const parsed = iface.parseLog({
+          topics: [...log.topics],
+          data: log.data,
+        });
+        if (parsed?.name === "OrderCreated") created = true;
+        if (parsed?.name === "RetryOrder") {
+          const oldOrderId = Number(parsed.args.oldOrderId);
+          const newOrderId = Number(parsed.args.newOrderId);
+          const timestamp = Number(parsed.args.timestamp);
+          if (newOrderId === id) created = true;
+          createdAt.set(newOrderId, timestamp);
+          createdBefore.set(oldOrderId, timestamp - lifetime);
+          pending.push(oldOrderId, newOrderId);
+        }
+      }
+
+      // A retried order is gone from storage and only bounded by the retry,
+      // so step back one lifetime at a time until its creation turns up
+      const bound = createdBefore.get(id);
+      if (created || bound === undefined) break;
+      const block = await provider.getBlock(fromBlock);
+      if (!block) throw new Error(`Block ${fromBlock} not found`);
+      const earlier = await indexer.findBlockByTimestamp(
+        Math.min(bound, block.timestamp) - lifetime,
+        head
+      );
+      if (earlier >= fromBlock) break;
+      toBlock = fromBlock - 1;
+      fromBlock = earlier;
+    }
+  }
+
+  const entries = [...logs.values()]
+    .map((log) => toHistoryEntry(iface, log))
+    .filter((entry): entry is OrderHistoryEntry => !!entry)
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  const orders = [...logs.values()]
+    .map((log) => parseOrderEvent(iface, log))
+    .filter((event): event is OrderEvent => !!event)
+    .sort(compareOrderEvents)
+    .reduce(applyOrderEvent, {} as Record<string, IndexedOrder>);
+
+  return {
+    orderId,
+    orderIds: [...visited].sort((a, b) => a - b),
+    order: orders[orderId] ?? null,
+    entries,
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import OTCSwap from "@/services/abi/OTCSwap.json";
+import OrderIndexer from "@/services/orderIndexer";
+import { createMemoryStorage, readJSON, writeJSON } from "@/services/storage";
+import { IndexedOrder, OrderBookSnapshot } from "@/types";
+
+const DAY = 24 * 60 * 60;
+const HEAD = 100;
+const CONTRACT = "0x00000000000000000000000000000000000000aa";
+const KEY = `otc-swap:orderbook:31337:${CONTRACT}`;
+
+const iface = new ethers.Interface(OTCSwap.abi);
+// One block a day, the head mined now
+const now = Math.floor(Date.now() / 1000);
+const timestampOf = (block: number) => now - (HEAD - block) * DAY;
+
+const provider = {
+  getBlockNumber: async () => HEAD,
+  getNetwork: async () => ({ chainId: BigInt(31337) }),
+  getBlock: async (block: number) => ({ timestamp: timestampOf(block) }),
+  getLogs: async () => [],
+} as unknown as ethers.Provider;
+
+const makeOrder = (
+  orderId: number,
+  block: number,
+  isActive = false
+): IndexedOrder => {
+  const created = {
+    blockNumber: block,
+    timestamp: timestampOf(block),
+    transactionHash: ethers.toBeHex(block, 32),
+  };
+  return {
+    orderId,
+    maker: "0x0000000000000000000000000000000000000001",
+    taker: ethers.ZeroAddress,
+    sell: { token: "0x0000000000000000000000000000000000000002", amount: "1" },
+    buy: { token: "0x0000000000000000000000000000000000000003", amount: "1" },
+    createdAt: created.timestamp,
+    orderCreationFee: "0",
+    isActive,
+    tries: 0,
+    created,
+    canceled: isActive ? undefined : created,
+  };
+};
+
+const syncFrom = async (snapshot: OrderBookSnapshot) => {
+  const storage = createMemoryStorage();
+  writeJSON(storage, KEY, snapshot);
+  const indexer = new OrderIndexer(provider, CONTRACT, iface, { storage });
+  const orders = await indexer.sync();
+  return { orders, saved: readJSON<OrderBookSnapshot>(storage, KEY)! };
+};
+
+describe("OrderIndexer.sync", () => {
+  it("drops closed orders created before the lookback window", async () => {
+    const { orders, saved } = await syncFrom({
+      version: 2,
+      fromBlock: 50,
+      lastSyncedBlock: 87,
+      orders: {
+        1: makeOrder(1, 60),
+        2: makeOrder(2, 87),
+        // Still awaiting cleanup, which may retry it
+        3: makeOrder(3, 60, true),
+      },
+    });
+    assert.deepEqual(
+      orders.map((order) => order.orderId),
+      [2, 3]
+    );
+    assert.deepEqual(Object.keys(saved.orders), ["2", "3"]);
+    assert.equal(saved.lastSyncedBlock, HEAD - 12);
+  });
+
+  it("starts over when the last sync predates the lookback window", async () => {
+    const { orders, saved } = await syncFrom({
+      version: 2,
+      fromBlock: 10,
+      lastSyncedBlock: 20,
+      orders: { 1: makeOrder(1, 15) },
+    });
+    assert.deepEqual(orders, []);
+    assert.equal(saved.fromBlock, HEAD - 14);
+  });
+});
@@ -0,0 +1,253 @@
+import { ethers } from "ethers";
+import { IndexedOrder, OrderBookSnapshot, OrderEvent } from "@/types";
+import {
+  ORDER_EVENT_NAMES,
+  applyOrderEvent,
+  compareOrderEvents,
+  parseOrderEvent,
+} from "@/services/orderBook";
+import {
+  KeyValueStorage,
+  getDefaultStorage,
+  readJSON,
+  writeJSON,
+} from "@/services/storage";
+
+const SNAPSHOT_VERSION = 2;
+
+interface OrderIndexerOptions {
+  // Blocks requested per eth_getLogs call; halved automatically on RPC errors
+  chunkSize?: number;
+  // Blocks below the head that are re-fetched on every sync to survive reorgs
+  confirmations?: number;
+  // Seconds of history to index and keep (ORDER_EXPIRY + GRACE_PERIOD)
+  lookback?: number;
+  // Never scan below this block, e.g. the contract deployment block
+  startBlock?: number;
+  storage?: KeyValueStorage;
+}
+
+class OrderIndexer {
+  private provider: ethers.Provider;
+  private contractAddress: string;
+  private iface: ethers.Interface;
+  private chunkSize: number;
+  private confirmations: number;
+  private lookback: number;
+  private startBlock: number;
+  private storage: KeyValueStorage;
+  private orders: Record<string, IndexedOrder> = {};
+  private syncing: Promise<IndexedOrder[]> | null = null;
+
+  constructor(
+    provider: ethers.Provider,
+    contractAddress: string,
+    iface: ethers.Interface,
+    options: OrderIndexerOptions = {}
+  ) {
+    this.provider = provider;
+    this.contractAddress = contractAddress;
+    this.iface = iface;
+    this.chunkSize = options.chunkSize ?? 2000;
+    this.confirmations = options.confirmations ?? 12;
+    this.lookback = options.lookback ?? 14 * 24 * 60 * 60;
+    this.startBlock = options.startBlock ?? 0;
+    this.storage = options.storage ?? getDefaultStorage();
+  }
+
+  getOrders(): IndexedOrder[] {
+    return Object.values(this.orders);
+  }
+
+  // Applies live events on top of the last sync without persisting them; the
+  // next sync re-fetches those blocks from the chain anyway.
+  applyEvents(events: OrderEvent[]): IndexedOrder[] {
+    this.orders = [...events]
+      .sort(compareOrderEvents)
+      .reduce(applyOrderEvent, { ...this.orders });
+    return this.getOrders();
+  }
+
+  // Concurrent callers share one in-flight sync
+  sync(): Promise<IndexedOrder[]> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  async reset(): Promise<void> {
+    this.storage.removeItem(await this.getStorageKey());
+    this.orders = {};
+  }
+
+  async fetchEvents(fromBlock: number, toBlock: number): Promise<OrderEvent[]> {
+    const topics = ORDER_EVENT_NAMES.map(
+      (name) => this.iface.getEvent(name)!.topicHash
+    );
+    const logs = await this.fetchLogs([topics], fromBlock, toBlock);
+    return logs
+      .map((log) => parseOrderEvent(this.iface, log))
+      .filter((event): event is OrderEvent => !!event)
+      .sort(compareOrderEvents);
+  }
+
+  // Fetches contract logs in chunked block ranges
+  async fetchLogs(
+    topics: ethers.TopicFilter,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<ethers.Log[]> {
+    const result: ethers.Log[] = [];
+    let chunkSize = this.chunkSize;
+    let start = fromBlock;
+
+    while (start <= toBlock) {
+      const end = Math.min(start + chunkSize - 1, toBlock);
+      let logs: ethers.Log[];
+      try {
+        logs = await this.provider.getLogs({
+          address: this.contractAddress,
+          topics,
+          fromBlock: start,
+          toBlock: end,
+        });
+      } catch (error) {
+        // Most RPCs reject wide ranges or large responses; retry smaller
+        if (chunkSize === 1) throw error;
+        chunkSize = Math.max(1, Math.floor(chunkSize / 2));
+        continue;
+      }
+
+      result.push(...logs);
+      start = end + 1;
+    }
+
+    return result;
+  }
+
+  // First block of the indexed window
+  async getStartBlock(): Promise<number> {
+    const snapshot = this.loadSnapshot(await this.getStorageKey());
+    if (snapshot) return snapshot.fromBlock;
+    const { fromBlock } = await this.createSnapshot(
+      await this.provider.getBlockNumber()
+    );
+    return fromBlock;
+  }
+
+  private async runSync(): Promise<IndexedOrder[]> {
+    const head = await this.provider.getBlockNumber();
+    const key = await this.getStorageKey();
+    const cutoff = Math.floor(Date.now() / 1000) - this.lookback;
+    const stored = this.loadSnapshot(key);
+    // A snapshot last synced before the window holds nothing worth keeping,
+    // so starting over beats replaying the whole gap
+    const snapshot =
+      stored && !(await this.isSyncedBefore(stored, cutoff))
+        ? stored
+        : await this.createSnapshot(head);
+
+    // Only blocks at least `confirmations` deep are persisted. Anything newer
+    // is fetched again on the next sync, so a reorg there just gets replaced.
+    const safeBlock = head - this.confirmations;
+    const events = await this.fetchEvents(snapshot.lastSyncedBlock + 1, head);
+
+    const orders = this.pruneOrders(
+      events
+        .filter((event) => event.blockNumber <= safeBlock)
+        .reduce(applyOrderEvent, snapshot.orders),
+      cutoff
+    );
+
+    if (safeBlock > snapshot.lastSyncedBlock) {
+      this.saveSnapshot(key, {
+        ...snapshot,
+        lastSyncedBlock: safeBlock,
+        orders,
+      });
+    }
+
+    this.orders = events
+      .filter((event) => event.blockNumber > safeBlock)
+      .reduce(applyOrderEvent, { ...orders });
+
+    return this.getOrders();
+  }
+
+  private async isSyncedBefore(
+    snapshot: OrderBookSnapshot,
+    timestamp: number
+  ): Promise<boolean> {
+    const block = await this.provider.getBlock(snapshot.lastSyncedBlock);
+    return !!block && block.timestamp < timestamp;
+  }
+
+  // Closed orders past their grace period can no longer change, so they are
+  // dropped to keep the stored snapshot from growing forever. Open ones are
+  // kept for their cleanup, which may retry them under a new ID.
+  private pruneOrders(
+    orders: Record<string, IndexedOrder>,
+    cutoff: number
+  ): Record<string, IndexedOrder> {
+    return Object.fromEntries(
+      Object.entries(orders).filter(
+        ([, order]) => order.isActive || order.createdAt >= cutoff
+      )
+    );
+  }
+
+  private async createSnapshot(head: number): Promise<OrderBookSnapshot> {
+    const fromBlock = Math.max(
+      this.startBlock,
+      await this.findBlockByTimestamp(
+        Math.floor(Date.now() / 1000) - this.lookback,
+        head
+      )
+    );
+    return {
+      version: SNAPSHOT_VERSION,
+      fromBlock,
+      lastSyncedBlock: fromBlock - 1,
+      orders: {},
+    };
+  }
+
+  // Binary search for the first block mined at or after `timestamp`
+  async findBlockByTimestamp(timestamp: number, head: number): Promise<number> {
+    let low = this.startBlock;
+    let high = head;
+
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      const block = await this.provider.getBlock(mid);
+      if (!block) throw new Error(`Block ${mid} not found`);
+      if (block.timestamp < timestamp) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+
+  private async getStorageKey(): Promise<string> {
+    const { chainId } = await this.provider.getNetwork();
+    return `otc-swap:orderbook:${chainId}:${this.contractAddress.toLowerCase()}`;
+  }
+
+  private loadSnapshot(key: string): OrderBookSnapshot | null {
+    const snapshot = readJSON<OrderBookSnapshot>(this.storage, key);
+    return snapshot?.version === SNAPSHOT_VERSION ? snapshot : null;
+  }
+
+  private saveSnapshot(key: string, snapshot: OrderBookSnapshot) {
+    writeJSON(this.storage, key, snapshot);
+  }
+}
+
+export type { OrderIndexerOptions };
+export default OrderIndexer;
@@ -0,0 +1,17 @@
+import { ethers } from "ethers";
+
+interface OrderLink {
+  chainId: number;
+  contract: string;
+  orderId: number;
+}
+
+// The link doubles as the QR payload, so a phone camera or wallet scanner
+// opens the same focused fill view as a pasted URL
+export function buildOrderLink(link: OrderLink, origin: string): string {
+  const url = new URL(`/order/${link.chainId}/${link.orderId}`, origin);
+  url.searchParams.set("contract", ethers.getAddress(link.contract));
+  return url.toString();
+}
+
+export type { OrderLink };
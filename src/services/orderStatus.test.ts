@@ -0,0 +1,104 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  canCancel,
+  canFill,
+  getExpiryTime,
+  getGracePeriodEnd,
+  getOrderStatus,
+} from "@/services/orderStatus";
+import { Order, OrderStatus, OrderTiming } from "@/types";
+
+const timing: OrderTiming = { orderExpiry: 7 * 86400, gracePeriod: 7 * 86400 };
+const createdAt = 1700000000;
+
+const order: Order = {
+  orderId: 20,
+  maker: "0x0000000000000000000000000000000000000001",
+  taker: "0x0000000000000000000000000000000000000000",
+  sell: { token: "0x0000000000000000000000000000000000000002", amount: "1" },
+  buy: { token: "0x0000000000000000000000000000000000000003", amount: "1" },
+  createdAt,
+  orderCreationFee: "0",
+  isActive: true,
+};
+
+const expiry = getExpiryTime(order, timing);
+const graceEnd = getGracePeriodEnd(order, timing);
+const event = {
+  blockNumber: 1,
+  timestamp: createdAt + 1,
+  transactionHash: "0x",
+};
+
+describe("getOrderStatus", () => {
+  it("is active up to and including the expiry timestamp", () => {
+    assert.equal(getOrderStatus(order, timing, createdAt), "Active");
+    assert.equal(getOrderStatus(order, timing, expiry), "Active");
+  });
+
+  it("enters the grace period one second after expiry", () => {
+    assert.equal(getOrderStatus(order, timing, expiry + 1), "InGracePeriod");
+    assert.equal(getOrderStatus(order, timing, graceEnd), "InGracePeriod");
+  });
+
+  it("awaits cleanup one second after the grace period ends", () => {
+    assert.equal(
+      getOrderStatus(order, timing, graceEnd + 1),
+      "AwaitingCleanup"
+    );
+  });
+
+  it("splits Expired from AwaitingCleanup by the cleanup queue", () => {
+    const now = graceEnd + 1;
+    const inBatch = { firstOrderId: 11, maxCleanupBatch: 10 };
+    const pastBatch = { firstOrderId: 10, maxCleanupBatch: 10 };
+    assert.equal(
+      getOrderStatus(order, timing, now, inBatch),
+      "AwaitingCleanup"
+    );
+    assert.equal(getOrderStatus(order, timing, now, pastBatch), "Expired");
+    // The queue only matters once the grace period is over
+    assert.equal(getOrderStatus(order, timing, expiry, pastBatch), "Active");
+  });
+
+  it("reports lifecycle events regardless of time", () => {
+    const filled = { ...order, filled: { ...event, taker: order.maker } };
+    assert.equal(getOrderStatus(filled, timing, createdAt), "Filled");
+    assert.equal(getOrderStatus(filled, timing, graceEnd + 1), "Filled");
+    const canceled = { ...order, canceled: event };
+    assert.equal(getOrderStatus(canceled, timing, graceEnd + 1), "Canceled");
+  });
+
+  it("prefers CleanedUp, then Retried, then Filled, then Canceled", () => {
+    const canceled = { ...order, canceled: event };
+    const filled = { ...canceled, filled: { ...event, taker: order.maker } };
+    const retried = { ...filled, retriedAs: 21 };
+    const cleanedUp = { ...retried, cleanedUp: event };
+    assert.equal(getOrderStatus(cleanedUp, timing, createdAt), "CleanedUp");
+    assert.equal(getOrderStatus(retried, timing, createdAt), "Retried");
+    assert.equal(getOrderStatus(filled, timing, createdAt), "Filled");
+    assert.equal(getOrderStatus(canceled, timing, createdAt), "Canceled");
+  });
+});
+
+describe("canFill and canCancel", () => {
+  const statuses: OrderStatus[] = [
+    "Active",
+    "InGracePeriod",
+    "AwaitingCleanup",
+    "Expired",
+    "Filled",
+    "Canceled",
+    "CleanedUp",
+    "Retried",
+  ];
+
+  it("only fills active orders", () => {
+    assert.deepEqual(statuses.filter(canFill), ["Active"]);
+  });
+
+  it("cancels active orders and orders in the grace period", () => {
+    assert.deepEqual(statuses.filter(canCancel), ["Active", "InGracePeriod"]);
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  CleanupQueue,
+  IndexedOrder,
+  Order,
+  OrderStatus,
+  OrderTiming,
+} from "@/types";
+
+type StatusInput = Order &
+  Partial<
+    Pick<IndexedOrder, "filled" | "canceled" | "cleanedUp" | "retriedAs">
+  >;
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  Active: "Active",
+  InGracePeriod: "Grace period — maker can cancel",
+  AwaitingCleanup: "Awaiting cleanup",
+  Expired: "Expired",
+  Filled: "Filled",
+  Canceled: "Canceled",
+  CleanedUp: "Cleaned up",
+  Retried: "Retried",
+};
+
+export const getExpiryTime = (
+  order: Pick<Order, "createdAt">,
+  timing: OrderTiming
+) => order.createdAt + timing.orderExpiry;
+
+export const getGracePeriodEnd = (
+  order: Pick<Order, "createdAt">,
+  timing: OrderTiming
+) => order.createdAt + timing.orderExpiry + timing.gracePeriod;
+
+// Matches the contract, which treats the expiry and grace period end
+// timestamps themselves as still inside the window
+export function getOrderStatus(
+  order: StatusInput,
+  timing: OrderTiming,
+  now: number = Math.floor(Date.now() / 1000),
+  queue?: CleanupQueue
+): OrderStatus {
+  if (order.cleanedUp) return "CleanedUp";
+  if (order.retriedAs !== undefined) return "Retried";
+  if (order.filled) return "Filled";
+  if (order.canceled) return "Canceled";
+
+  if (now <= getExpiryTime(order, timing)) return "Active";
+  if (now <= getGracePeriodEnd(order, timing)) return "InGracePeriod";
+
+  // Without the queue position, assume the next cleanup reaches it
+  if (queue && order.orderId >= queue.firstOrderId + queue.maxCleanupBatch) {
+    return "Expired";
+  }
+  return "AwaitingCleanup";
+}
+
+export const isOpenStatus = (status: OrderStatus) =>
+  status === "Active" ||
+  status === "InGracePeriod" ||
+  status === "AwaitingCleanup" ||
+  status === "Expired";
+
+export const canFill = (status: OrderStatus) => status === "Active";
+
+export const canCancel = (status: OrderStatus) =>
+  status === "Active" || status === "InGracePeriod";
@@ -0,0 +1,133 @@
+import { ethers } from "ethers";
+import { IndexedOrder, Order, OrderBookUpdate, OrderEvent } from "@/types";
+import OrderIndexer from "@/services/orderIndexer";
+import { ORDER_EVENT_NAMES, parseOrderEvent } from "@/services/orderBook";
+
+type OrderBookListener = (update: OrderBookUpdate) => void;
+
+interface OrderSubscriptionOptions {
+  // Milliseconds between eth_getLogs polls when filters are unavailable
+  pollInterval?: number;
+}
+
+class OrderSubscription {
+  private provider: ethers.Provider;
+  private contract: ethers.Contract;
+  private indexer: OrderIndexer;
+  private selectOrders: (orders: IndexedOrder[]) => Order[];
+  private listener: OrderBookListener;
+  private pollInterval: number;
+  private current = new Map<number, Order>();
+  private handlers: [string, ethers.Listener][] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastBlock = 0;
+  private polling = false;
+  private stopped = false;
+
+  constructor(
+    provider: ethers.Provider,
+    contract: ethers.Contract,
+    indexer: OrderIndexer,
+    selectOrders: (orders: IndexedOrder[]) => Order[],
+    listener: OrderBookListener,
+    options: OrderSubscriptionOptions = {}
+  ) {
+    this.provider = provider;
+    this.contract = contract;
+    this.indexer = indexer;
+    this.selectOrders = selectOrders;
+    this.listener = listener;
+    this.pollInterval = options.pollInterval ?? 15000;
+  }
+
+  async start(): Promise<void> {
+    this.lastBlock = await this.provider.getBlockNumber();
+    const orders = this.selectOrders(await this.indexer.sync());
+    this.current = new Map(orders.map((order) => [order.orderId, order]));
+    this.listener({ orders, added: [], removed: [] });
+
+    if (this.stopped) return;
+
+    if (await this.supportsFilters()) {
+      for (const name of ORDER_EVENT_NAMES) {
+        const handler: ethers.Listener = (...args) => {
+          const payload = args[args.length - 1] as ethers.ContractEventPayload;
+          const event = parseOrderEvent(this.contract.interface, payload.log);
+          if (event) this.apply([event]);
+        };
+        this.handlers.push([name, handler]);
+        await this.contract.on(name, handler);
+      }
+      // Events never fire for expiry, so re-evaluate the book periodically
+      this.timer = setInterval(() => this.apply([]), this.pollInterval);
+    } else {
+      this.timer = setInterval(() => this.poll(), this.pollInterval);
+    }
+
+    // stop() may have run while listeners were still being registered
+    if (this.stopped) this.stop();
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    for (const [name, handler] of this.handlers) {
+      this.contract.off(name, handler);
+    }
+    this.handlers = [];
+  }
+
+  private async poll() {
+    if (this.polling || this.stopped) return;
+    this.polling = true;
+    try {
+      const head = await this.provider.getBlockNumber();
+      if (head > this.lastBlock) {
+        const events = await this.indexer.fetchEvents(this.lastBlock + 1, head);
+        this.lastBlock = head;
+        this.apply(events);
+      } else {
+        // No new blocks, but orders may still have expired since last tick
+        this.apply([]);
+      }
+    } catch (error) {
+      console.warn("Failed to poll order events:", error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private apply(events: OrderEvent[]) {
+    if (this.stopped) return;
+
+    const orders = this.selectOrders(this.indexer.applyEvents(events));
+    const next = new Map(orders.map((order) => [order.orderId, order]));
+    const added = orders.filter((order) => !this.current.has(order.orderId));
+    const removed = [...this.current.values()].filter(
+      (order) => !next.has(order.orderId)
+    );
+    this.current = next;
+
+    if (events.length > 0 || added.length > 0 || removed.length > 0) {
+      this.listener({ orders, added, removed });
+    }
+  }
+
+  // Some RPC endpoints (and most public ones) reject eth_newFilter
+  private async supportsFilters(): Promise<boolean> {
+    if (!(this.provider instanceof ethers.JsonRpcApiProvider)) return false;
+    try {
+      const filterId = await this.provider.send("eth_newFilter", [
+        { address: this.contract.target },
+      ]);
+      await this.provider.send("eth_uninstallFilter", [filterId]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export type { OrderBookListener, OrderSubscriptionOptions };
+export default OrderSubscription;
@@ -1,11 +1,67 @@
 import { ethers } from "ethers";
 import {
+  AccountOrders,
+  ActiveOrdersPage,
+  CleanupEstimate,
+  CleanupQueue,
+  CleanupResult,
+  FeeHistoryEntry,
+  FeeParameters,
+  FeeQuote,
   FillOrderParams,
   GetActiveOrdersParams,
+  IndexedOrder,
   Order,
+  OnChainOrder,
+  OrderHistory,
   OrderParams,
+  OrderStatus,
+  OrderTiming,
+  ReplaceOrderSimulation,
   TokenDetails,
+  TransactionCallback,
+  TransactionSimulation,
 } from "@/types";
+import OrderIndexer, { OrderIndexerOptions } from "@/services/orderIndexer";
+import TokenRegistry from "@/services/tokenRegistry";
+import AllowanceManager from "@/services/allowances";
+import { fetchOrderHistory } from "@/services/orderHistory";
+import { decodeOnChainOrder } from "@/services/onChainOrder";
+import { calculateCleanupReward } from "@/services/cleanup";
+import {
+  DEFAULT_ORDER_FILTERS,
+  applyOrderFilters,
+  paginate,
+} from "@/services/orderFilters";
+import OTCError, { toOTCError } from "@/services/errors";
+import {
+  DEFAULT_FEE_MARGIN,
+  DEFAULT_FEE_PARAMETERS,
+  getFeeHistory,
+  getFeeQuote,
+} from "@/services/fees";
+import {
+  KeyValueStorage,
+  getDefaultStorage,
+  readJSON,
+  writeJSON,
+} from "@/services/storage";
+import {
+  getExpiryTime,
+  getGracePeriodEnd,
+  getOrderStatus,
+} from "@/services/orderStatus";
+import OrderSubscription, {
+  OrderBookListener,
+  OrderSubscriptionOptions,
+} from "@/services/orderSubscription";
+
+const FEE_MARGIN_KEY = "otc-swap:fee-margin";
+
+// Resubmissions after the fee moved outside the accepted window
+const MAX_FEE_RETRIES = 2;
+// How long to wait for a receipt before checking the node still knows the tx
+const TX_WAIT_TIMEOUT = 5 * 60 * 1000;
 
 type EventLog = ethers.Log & {
   args: Record<string, any>;
@@ -15,15 +71,26 @@ type EventLog = ethers.Log & {
 class OTCClient {
   private provider: ethers.Provider;
   private contract: ethers.Contract;
+  private indexer: OrderIndexer | null = null;
+  private indexerOptions: OrderIndexerOptions;
+  private timing: OrderTiming | null = null;
+  private feeParameters: FeeParameters | null = null;
+  private storage: KeyValueStorage = getDefaultStorage();
   public signer: ethers.Signer | null = null;
+  public tokens: TokenRegistry;
+  public allowances: AllowanceManager;
 
   constructor(
     contractAddress: string,
     contractABI: any[],
-    provider: ethers.Provider
+    provider: ethers.Provider,
+    indexerOptions: OrderIndexerOptions = {}
   ) {
     this.provider = provider;
     this.contract = new ethers.Contract(contractAddress, contractABI, provider);
+    this.indexerOptions = indexerOptions;
+    this.tokens = new TokenRegistry(provider);
+    this.allowances = new AllowanceManager(provider, contractAddress);
   }
 
   async connect(signer: ethers.Signer): Promise<void> {
@@ -31,13 +98,27 @@ class OTCClient {
     this.contract = this.contract.connect(signer) as ethers.Contract;
   }
 
+  // Back to read-only, e.g. after the wallet disconnects
+  disconnect() {
+    this.signer = null;
+    this.contract = this.contract.connect(this.provider) as ethers.Contract;
+  }
+
   async setProvider(provider: ethers.Provider) {
     this.provider = provider;
     this.contract = this.contract.connect(this.provider) as ethers.Contract;
+    this.indexer = null;
+    this.timing = null;
+    this.feeParameters = null;
+    this.tokens = new TokenRegistry(provider);
+    this.allowances = new AllowanceManager(
+      provider,
+      this.contract.target as string
+    );
   }
 
-  async createOrder(params: OrderParams) {
-    if (!this.signer) throw new Error("No signer connected");
+  async createOrder(params: OrderParams, onTransaction?: TransactionCallback) {
+    if (!this.signer) throw new OTCError("NO_SIGNER");
     const {
       taker = ethers.ZeroAddress,
       sellToken,
@@ -47,44 +128,47 @@ class OTCClient {
     } = params;
 
     try {
-      // Get current order creation fee
-      const fee = await this.contract.orderCreationFee();
-      const minFee = (fee * BigInt(90)) / BigInt(100); // MIN_FEE_PERCENTAGE = 90
-      const maxFee = (fee * BigInt(150)) / BigInt(100); // MAX_FEE_PERCENTAGE = 150
-
-      // Validate tokens
-      if (sellToken === ethers.ZeroAddress)
-        throw new Error("Invalid sell token");
-      if (buyToken === ethers.ZeroAddress) throw new Error("Invalid buy token");
-      if (sellToken === buyToken) throw new Error("Cannot swap same token");
-      if (sellAmount <= 0) throw new Error("Invalid sell amount");
-      if (buyAmount <= 0) throw new Error("Invalid buy amount");
-
-      // Approve sell token
-      const sellTokenContract = new ethers.Contract(
-        sellToken,
-        [
-          "function approve(address spender, uint256 amount) public returns (bool)",
-        ],
-        this.signer
-      );
+      this.validateCreateOrder(params);
 
-      const approveTx = await sellTokenContract.approve(
-        this.contract.target,
-        sellAmount
-      );
-      await approveTx.wait();
-
-      // Create order with fee
-      const tx = await this.contract.createOrder(
-        taker,
+      await this.allowances.ensureAllowance(
         sellToken,
         sellAmount,
-        buyToken,
-        buyAmount,
-        { value: fee } // Send the creation fee
+        this.signer,
+        onTransaction
       );
-      const receipt = await tx.wait();
+
+      // The fee adjusts after every order, so an order mined just before ours
+      // can move it out of the window; retry with a freshly read fee
+      let receipt: ethers.TransactionReceipt;
+      for (let attempt = 0; ; attempt++) {
+        const { fee } = await this.getFeeQuote();
+        try {
+          const tx = await this.contract.createOrder(
+            taker,
+            sellToken,
+            sellAmount,
+            buyToken,
+            buyAmount,
+            { value: fee }
+          );
+          onTransaction?.({ kind: "createOrder", hash: tx.hash });
+          receipt = await tx.wait();
+          break;
+        } catch (error) {
+          const otcError = toOTCError(
+            error,
+            "create order",
+            this.contract.interface
+          );
+          const feeRejected =
+            otcError.code === "FEE_TOO_LOW" ||
+            otcError.code === "FEE_TOO_HIGH" ||
+            (otcError.code === "UNKNOWN" &&
+              (await this.isFeeOutOfWindow(error, fee)));
+          if (!feeRejected || attempt >= MAX_FEE_RETRIES) throw otcError;
+          console.warn("Order creation fee changed, retrying:", otcError);
+        }
+      }
 
       const event = receipt.logs.find(
         (log: any) => (log as EventLog).fragment?.name === "OrderCreated"
@@ -103,58 +187,68 @@ class OTCClient {
         },
       };
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Failed to create order: ${error.message}`);
-      }
-      throw error;
+      throw toOTCError(error, "create order", this.contract.interface);
     }
   }
 
-  async fillOrder(params: FillOrderParams) {
-    if (!this.signer) throw new Error("No signer connected");
-    const { orderId, buyToken, buyAmount } = params;
+  // One approval covering every fill of a batch, so the fills that follow
+  // find the allowance in place and skip their own approvals
+  async approveBatchFill(
+    buyToken: string,
+    totalBuyAmount: bigint,
+    onTransaction?: TransactionCallback
+  ): Promise<string[]> {
+    if (!this.signer) throw new OTCError("NO_SIGNER");
 
     try {
-      // Get order details to validate
-      const order = await this.contract.orders(orderId);
-      if (!order) throw new Error("Order does not exist");
-      if (!order.isActive) throw new Error("Order is not active");
-
-      const currentTime = Math.floor(Date.now() / 1000);
-      if (currentTime > order.timestamp + 7 * 24 * 60 * 60) {
-        throw new Error("Order has expired");
+      const account = await this.signer.getAddress();
+      const balances = await this.getBalances([buyToken], account);
+      if (balances[buyToken.toLowerCase()] < totalBuyAmount) {
+        throw new OTCError("INSUFFICIENT_BALANCE", { token: buyToken });
       }
+      return await this.allowances.ensureAllowance(
+        buyToken,
+        totalBuyAmount,
+        this.signer,
+        onTransaction
+      );
+    } catch (error) {
+      throw toOTCError(error, "approve batch fill", this.contract.interface);
+    }
+  }
 
-      if (order.taker !== ethers.ZeroAddress) {
-        const signerAddress = await this.signer.getAddress();
-        if (order.taker !== signerAddress) {
-          throw new Error("Not authorized to fill this order");
-        }
-      }
+  async fillOrder(
+    params: FillOrderParams,
+    onTransaction?: TransactionCallback
+  ) {
+    if (!this.signer) throw new OTCError("NO_SIGNER");
+    const { orderId, buyToken, buyAmount } = params;
+
+    try {
+      const signerAddress = await this.signer.getAddress();
+      await this.validateFillOrder(params, signerAddress);
 
       const buyTokenContract = new ethers.Contract(
         buyToken,
-        [
-          "function approve(address spender, uint256 amount) public returns (bool)",
-          "function balanceOf(address) view returns (uint256)",
-        ],
+        ["function balanceOf(address) view returns (uint256)"],
         this.signer
       );
 
       // Check balance
-      const signerAddress = await this.signer.getAddress();
       const balance = await buyTokenContract.balanceOf(signerAddress);
       if (balance < buyAmount) {
-        throw new Error("Insufficient balance for buy token");
+        throw new OTCError("INSUFFICIENT_BALANCE", { token: buyToken });
       }
 
-      const approveTx = await buyTokenContract.approve(
-        this.contract.target,
-        buyAmount
+      await this.allowances.ensureAllowance(
+        buyToken,
+        buyAmount,
+        this.signer,
+        onTransaction
       );
-      await approveTx.wait();
 
       const tx = await this.contract.fillOrder(orderId);
+      onTransaction?.({ kind: "fillOrder", hash: tx.hash });
       const receipt = await tx.wait();
 
       const event = receipt.logs.find(
@@ -173,33 +267,18 @@ class OTCClient {
         },
       };
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Failed to fill order: ${error.message}`);
-      }
-      throw error;
+      throw toOTCError(error, "fill order", this.contract.interface);
     }
   }
 
-  async cancelOrder(orderId: number) {
-    if (!this.signer) throw new Error("No signer connected");
+  async cancelOrder(orderId: number, onTransaction?: TransactionCallback) {
+    if (!this.signer) throw new OTCError("NO_SIGNER");
 
     try {
-      // Get order details to validate
-      const order = await this.contract.orders(orderId);
-      if (!order) throw new Error("Order does not exist");
-
-      const signerAddress = await this.signer.getAddress();
-      if (order.maker !== signerAddress) {
-        throw new Error("Only maker can cancel order");
-      }
-
-      const currentTime = BigInt(Math.floor(Date.now() / 1000));
-      const gracePeriodEnd = order.timestamp + BigInt(14 * 24 * 60 * 60);
-      if (currentTime > gracePeriodEnd) {
-        throw new Error("Grace period has expired");
-      }
+      await this.validateCancelOrder(orderId, await this.signer.getAddress());
 
       const tx = await this.contract.cancelOrder(orderId);
+      onTransaction?.({ kind: "cancelOrder", hash: tx.hash });
       const receipt = await tx.wait();
 
       const event = receipt.logs.find(
@@ -216,160 +295,402 @@ class OTCClient {
           blockNumber: receipt.blockNumber,
         },
       };
+    } catch (error) {
+      throw toOTCError(error, "cancel order", this.contract.interface);
+    }
+  }
+
+  async simulateCreateOrder(
+    params: OrderParams
+  ): Promise<TransactionSimulation> {
+    const { taker = ethers.ZeroAddress, sellToken, sellAmount } = params;
+    const { fee } = await this.getFeeQuote();
+    return this.simulate(
+      "createOrder",
+      fee,
+      [{ token: sellToken, amount: sellAmount }],
+      async () => {
+        this.validateCreateOrder(params);
+        return [
+          taker,
+          sellToken,
+          sellAmount,
+          params.buyToken,
+          params.buyAmount,
+        ];
+      }
+    );
+  }
+
+  async simulateFillOrder(
+    params: FillOrderParams
+  ): Promise<TransactionSimulation> {
+    return this.simulate(
+      "fillOrder",
+      BigInt(0),
+      [{ token: params.buyToken, amount: params.buyAmount }],
+      async (account) => {
+        await this.validateFillOrder(params, account);
+        return [params.orderId];
+      }
+    );
+  }
+
+  async simulateCancelOrder(orderId: number): Promise<TransactionSimulation> {
+    return this.simulate("cancelOrder", BigInt(0), [], async (account) => {
+      await this.validateCancelOrder(orderId, account);
+      return [orderId];
+    });
+  }
+
+  // The replacement can't be dry-run while the old order still holds the
+  // tokens, so its shortfall is offset by what the cancel returns and its gas
+  // stays unknown until the cancel is mined
+  async simulateReplaceOrder(
+    orderId: number,
+    params: OrderParams
+  ): Promise<ReplaceOrderSimulation> {
+    const [order, cancel, create] = await Promise.all([
+      this.getOrder(orderId),
+      this.simulateCancelOrder(orderId),
+      this.simulateCreateOrder(params),
+    ]);
+
+    const returned = (token: string) =>
+      order && order.sellToken.toLowerCase() === token.toLowerCase()
+        ? order.sellAmount
+        : BigInt(0);
+    const tokens = create.tokens.map((requirement) => ({
+      ...requirement,
+      balance: requirement.balance + returned(requirement.token),
+    }));
+    const covered = tokens.every(
+      (requirement) => requirement.balance >= requirement.amount
+    );
+    const error =
+      create.error instanceof OTCError &&
+      create.error.code === "INSUFFICIENT_BALANCE" &&
+      covered
+        ? null
+        : create.error;
+
+    const totalCost =
+      cancel.totalCost !== null && create.totalCost !== null && !error
+        ? cancel.totalCost + create.totalCost
+        : null;
+
+    return { cancel, create: { ...create, tokens, error }, totalCost };
+  }
+
+  async simulateCleanupExpiredOrders(): Promise<TransactionSimulation> {
+    return this.simulate("cleanup", BigInt(0), [], async () => []);
+  }
+
+  // Dry-runs a contract call from the connected account. Token shortfalls are
+  // reported instead of simulated, since the call would only revert on them.
+  private async simulate(
+    kind: "createOrder" | "fillOrder" | "cancelOrder" | "cleanup",
+    value: bigint,
+    requirements: { token: string; amount: bigint }[],
+    validate: (account: string) => Promise<unknown[]>
+  ): Promise<TransactionSimulation> {
+    if (!this.signer) throw new OTCError("NO_SIGNER");
+    const signer = this.signer;
+    const account = await signer.getAddress();
+    const method = kind === "cleanup" ? "cleanupExpiredOrders" : kind;
+
+    const [nativeBalance, feeData, tokens] = await Promise.all([
+      this.provider.getBalance(account),
+      this.provider.getFeeData(),
+      Promise.all(
+        requirements.map(async ({ token, amount }) => {
+          const [balances, allowance, approval] = await Promise.all([
+            this.getBalances([token], account),
+            this.allowances.getAllowance(token, account),
+            this.allowances.estimateApproval(token, amount, signer),
+          ]);
+          return {
+            requirement: {
+              token,
+              amount,
+              balance: balances[token.toLowerCase()],
+              allowance,
+              approvals: approval.transactions,
+            },
+            approvalGas: approval.gas,
+          };
+        })
+      ),
+    ]);
+
+    let error: Error | null = null;
+    let gasLimit: bigint | null = null;
+    try {
+      const args = await validate(account);
+      const shortfall = tokens.find(
+        ({ requirement }) => requirement.balance < requirement.amount
+      );
+      if (shortfall) {
+        throw new OTCError("INSUFFICIENT_BALANCE", {
+          token: shortfall.requirement.token,
+        });
+      }
+      if (tokens.every(({ requirement }) => requirement.approvals === 0)) {
+        await this.contract[method].staticCall(...args, { value });
+        gasLimit = await this.contract[method].estimateGas(...args, { value });
+      }
+    } catch (err) {
+      error = toOTCError(err, undefined, this.contract.interface);
+    }
+
+    const approvalGas = tokens.reduce<bigint | null>(
+      (total, token) =>
+        total === null || token.approvalGas === null
+          ? null
+          : total + token.approvalGas,
+      BigInt(0)
+    );
+    const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice;
+    const totalCost =
+      gasPrice !== null && gasLimit !== null && approvalGas !== null
+        ? value + (gasLimit + approvalGas) * gasPrice
+        : null;
+
+    return {
+      kind,
+      gasLimit,
+      approvalGas,
+      gasPrice,
+      value,
+      totalCost,
+      nativeBalance,
+      tokens: tokens.map(({ requirement }) => requirement),
+      error,
+    };
+  }
+
+  private validateCreateOrder(params: OrderParams) {
+    const { sellToken, sellAmount, buyToken, buyAmount } = params;
+    if (sellToken === ethers.ZeroAddress) throw new OTCError("INVALID_TOKEN");
+    if (buyToken === ethers.ZeroAddress) throw new OTCError("INVALID_TOKEN");
+    if (sellToken === buyToken) throw new OTCError("SAME_TOKEN");
+    if (sellAmount <= 0) throw new OTCError("INVALID_AMOUNT");
+    if (buyAmount <= 0) throw new OTCError("INVALID_AMOUNT");
+  }
+
+  // Validates against the stored order rather than the caller's copy
+  private async validateFillOrder(params: FillOrderParams, account: string) {
+    const order = await this.getOrder(params.orderId);
+    if (!order) throw new OTCError("ORDER_NOT_FOUND");
+    if (order.status !== "Active") throw new OTCError("ORDER_NOT_ACTIVE");
+    if (
+      order.buyToken.toLowerCase() !== params.buyToken.toLowerCase() ||
+      order.buyAmount !== params.buyAmount
+    ) {
+      throw new OTCError("ORDER_MISMATCH");
+    }
+
+    const timing = await this.getOrderExpiryInfo();
+    if (
+      Date.now() / 1000 >
+      getExpiryTime({ createdAt: order.timestamp }, timing)
+    ) {
+      throw new OTCError("ORDER_EXPIRED");
+    }
+
+    if (
+      order.taker !== ethers.ZeroAddress &&
+      order.taker.toLowerCase() !== account.toLowerCase()
+    ) {
+      throw new OTCError("NOT_AUTHORIZED");
+    }
+  }
+
+  private async validateCancelOrder(orderId: number, account: string) {
+    const order = await this.getOrder(orderId);
+    if (!order) throw new OTCError("ORDER_NOT_FOUND");
+    if (order.status !== "Active") throw new OTCError("ORDER_NOT_ACTIVE");
+    if (order.maker.toLowerCase() !== account.toLowerCase()) {
+      throw new OTCError("NOT_MAKER");
+    }
+
+    const timing = await this.getOrderExpiryInfo();
+    if (
+      Date.now() / 1000 >
+      getGracePeriodEnd({ createdAt: order.timestamp }, timing)
+    ) {
+      throw new OTCError("GRACE_PERIOD_EXPIRED");
+    }
+  }
+
+  // Reads the order as currently stored by the contract
+  async getOrder(orderId: number): Promise<OnChainOrder | null> {
+    try {
+      return decodeOnChainOrder(orderId, await this.contract.orders(orderId));
     } catch (error) {
       if (error instanceof Error) {
-        throw new Error(`Failed to cancel order: ${error.message}`);
+        throw new Error(`Failed to fetch order: ${error.message}`);
       }
       throw error;
     }
   }
 
-  async getActiveOrders(params: GetActiveOrdersParams = {}) {
-    const {
-      fromBlock = 0,
-      toBlock = "latest",
-      makerAddress = null,
-      sellToken = null,
-      buyToken = null,
-    } = params;
-
+  // Filters and sorts the whole book, then cuts the requested page. For
+  // callers without a live subscription, e.g. scripts; the UI already holds
+  // the book and cuts its pages locally with the same helpers.
+  async getActiveOrders(
+    params: GetActiveOrdersParams = {}
+  ): Promise<ActiveOrdersPage> {
+    const { sellToken, buyToken, sort = "age", offset = 0, limit } = params;
     try {
-      const createdFilter = this.contract.filters.OrderCreated();
-      const filledFilter = this.contract.filters.OrderFilled();
-      const canceledFilter = this.contract.filters.OrderCanceled();
-      const cleanedFilter = this.contract.filters.OrderCleanedUp();
-      const retryFilter = this.contract.filters.RetryOrder();
-
-      const [
-        createdEvents,
-        filledEvents,
-        canceledEvents,
-        cleanedEvents,
-        retryEvents,
-      ] = await Promise.all([
-        this.contract.queryFilter(createdFilter, fromBlock, toBlock),
-        this.contract.queryFilter(filledFilter, fromBlock, toBlock),
-        this.contract.queryFilter(canceledFilter, fromBlock, toBlock),
-        this.contract.queryFilter(cleanedFilter, fromBlock, toBlock),
-        this.contract.queryFilter(retryFilter, fromBlock, toBlock),
+      const indexer = await this.getIndexer();
+      const [indexedOrders, timing] = await Promise.all([
+        indexer.sync(),
+        this.getOrderExpiryInfo(),
       ]);
 
-      console.log(
-        "createdEvents",
-        createdEvents,
-        "filledEvents",
-        filledEvents,
-        "canceledEvents",
-        canceledEvents,
-        "cleanedEvents",
-        cleanedEvents,
-        "retryEvents",
-        retryEvents
-      );
-      const filledOrderIds = new Set(
-        filledEvents.map((e) => (e as EventLog).args.orderId.toString())
+      const [sellDecimals, buyDecimals] = await Promise.all(
+        [sellToken, buyToken].map((token) =>
+          token && (sort === "price" || sort === "size")
+            ? this.tokens.getToken(token).then((t) => t.decimals)
+            : undefined
+        )
       );
-      const canceledOrderIds = new Set(
-        canceledEvents.map((e) => (e as EventLog).args.orderId.toString())
-      );
-      const cleanedOrderIds = new Set(
-        cleanedEvents.map((e) => (e as EventLog).args.orderId.toString())
-      );
-      const retriedOrderIds = new Set(
-        retryEvents.map((e) => (e as EventLog).args.oldOrderId.toString())
+      const sorted = applyOrderFilters(
+        this.selectActiveOrders(indexedOrders, timing, params),
+        {
+          ...DEFAULT_ORDER_FILTERS,
+          sellToken: sellToken ?? null,
+          buyToken: buyToken ?? null,
+          sort,
+        },
+        { timing, sellDecimals, buyDecimals }
       );
 
-      // Current timestamp for expiry check
-      const currentTimestamp = Math.floor(Date.now() / 1000);
-      const ORDER_EXPIRY = 7 * 24 * 60 * 60; // 7 days in seconds
-
-      // Filter and map active orders
-      let activeOrders = createdEvents
-        .filter((event) => {
-          const orderId = (event as EventLog).args.orderId.toString();
-          const isExpired =
-            currentTimestamp >
-            Number((event as EventLog).args.timestamp) + ORDER_EXPIRY;
-
-          return (
-            !filledOrderIds.has(orderId) &&
-            !canceledOrderIds.has(orderId) &&
-            !cleanedOrderIds.has(orderId) &&
-            !retriedOrderIds.has(orderId) &&
-            !isExpired
-          );
-        })
-        .map((event) => ({
-          orderId: Number((event as EventLog).args.orderId),
-          maker: (event as EventLog).args.maker,
-          taker: (event as EventLog).args.taker,
-          sell: {
-            token: (event as EventLog).args.sellToken,
-            amount: (event as EventLog).args.sellAmount.toString(),
-          },
-          buy: {
-            token: (event as EventLog).args.buyToken,
-            amount: (event as EventLog).args.buyAmount.toString(),
-          },
-          createdAt: Number((event as EventLog).args.timestamp),
-          orderCreationFee: (
-            event as EventLog
-          ).args.orderCreationFee.toString(),
-          isActive: true,
-        }));
-
-      if (makerAddress) {
-        activeOrders = activeOrders.filter(
-          (order) => order.maker.toLowerCase() === makerAddress.toLowerCase()
-        );
-      }
-      if (sellToken) {
-        activeOrders = activeOrders.filter(
-          (order) => order.sell.token.toLowerCase() === sellToken.toLowerCase()
-        );
-      }
-      if (buyToken) {
-        activeOrders = activeOrders.filter(
-          (order) => order.buy.token.toLowerCase() === buyToken.toLowerCase()
-        );
+      const { items, pagination } = paginate(sorted, offset, limit);
+      return { orders: items, pagination };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch active orders: ${error.message}`);
       }
+      throw error;
+    }
+  }
+
+  async subscribeToOrders(
+    listener: OrderBookListener,
+    params: GetActiveOrdersParams = {},
+    options: OrderSubscriptionOptions = {}
+  ): Promise<() => void> {
+    const indexer = await this.getIndexer();
+    const timing = await this.getOrderExpiryInfo();
+    const subscription = new OrderSubscription(
+      this.provider,
+      this.contract,
+      indexer,
+      (orders) => this.selectActiveOrders(orders, timing, params),
+      listener,
+      options
+    );
+    await subscription.start();
+    return () => subscription.stop();
+  }
+
+  // Every indexed order the account made or filled, in any state
+  async getAccountOrders(account: string): Promise<AccountOrders> {
+    try {
+      const indexer = await this.getIndexer();
+      const orders = (await indexer.sync()).sort(
+        (a, b) => b.orderId - a.orderId
+      );
+      const address = account.toLowerCase();
 
       return {
-        orders: activeOrders,
-        pagination: {
-          hasMore: false,
-          nextOffset: 0,
-        },
+        made: orders.filter((order) => order.maker.toLowerCase() === address),
+        filled: orders.filter(
+          (order) => order.filled?.taker.toLowerCase() === address
+        ),
       };
     } catch (error) {
       if (error instanceof Error) {
-        throw new Error(`Failed to fetch active orders: ${error.message}`);
+        throw new Error(`Failed to fetch account orders: ${error.message}`);
       }
       throw error;
     }
   }
 
-  async getTokenDetails(tokenAddress: string): Promise<TokenDetails> {
-    const tokenContract = new ethers.Contract(
-      tokenAddress,
-      [
-        "function name() view returns (string)",
-        "function symbol() view returns (string)",
-        "function decimals() view returns (uint8)",
-        "function balanceOf(address) view returns (uint256)",
-      ],
-      this.provider
-    );
+  async getOrderHistory(orderId: number): Promise<OrderHistory> {
+    try {
+      return await fetchOrderHistory(
+        this.provider,
+        this.contract,
+        await this.getIndexer(),
+        await this.getOrderExpiryInfo(),
+        orderId
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch order history: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private selectActiveOrders(
+    indexedOrders: IndexedOrder[],
+    timing: OrderTiming,
+    params: GetActiveOrdersParams
+  ): Order[] {
+    const { makerAddress = null, sellToken = null, buyToken = null } = params;
+
+    let activeOrders: Order[] = indexedOrders
+      .filter((order) => getOrderStatus(order, timing) === "Active")
+      .sort((a, b) => a.orderId - b.orderId);
+
+    if (makerAddress) {
+      activeOrders = activeOrders.filter(
+        (order) => order.maker.toLowerCase() === makerAddress.toLowerCase()
+      );
+    }
+    if (sellToken) {
+      activeOrders = activeOrders.filter(
+        (order) => order.sell.token.toLowerCase() === sellToken.toLowerCase()
+      );
+    }
+    if (buyToken) {
+      activeOrders = activeOrders.filter(
+        (order) => order.buy.token.toLowerCase() === buyToken.toLowerCase()
+      );
+    }
+
+    return activeOrders;
+  }
+
+  private async getIndexer(): Promise<OrderIndexer> {
+    if (!this.indexer) {
+      const { orderExpiry, gracePeriod } = await this.getOrderExpiryInfo();
+      this.indexer = new OrderIndexer(
+        this.provider,
+        this.contract.target as string,
+        this.contract.interface,
+        { ...this.indexerOptions, lookback: orderExpiry + gracePeriod }
+      );
+    }
+    return this.indexer;
+  }
 
+  async getTokenDetails(tokenAddress: string): Promise<TokenDetails> {
     try {
-      const [name, symbol, decimals] = await Promise.all([
-        tokenContract.name(),
-        tokenContract.symbol(),
-        tokenContract.decimals(),
-      ]);
+      const { name, symbol, decimals } =
+        await this.tokens.getToken(tokenAddress);
 
       let balance = BigInt(0);
       if (this.signer) {
+        const tokenContract = new ethers.Contract(
+          tokenAddress,
+          ["function balanceOf(address) view returns (uint256)"],
+          this.provider
+        );
         const signerAddress = await this.signer.getAddress();
         balance = await tokenContract.balanceOf(signerAddress);
       }
@@ -380,6 +701,62 @@ class OTCClient {
     }
   }
 
+  async getBalances(
+    tokenAddresses: string[],
+    account: string
+  ): Promise<Record<string, bigint>> {
+    const balances = await Promise.all(
+      tokenAddresses.map((tokenAddress) =>
+        new ethers.Contract(
+          tokenAddress,
+          ["function balanceOf(address) view returns (uint256)"],
+          this.provider
+        )
+          .balanceOf(account)
+          .catch(() => BigInt(0))
+      )
+    );
+    return Object.fromEntries(
+      tokenAddresses.map((tokenAddress, i) => [
+        tokenAddress.toLowerCase(),
+        balances[i] as bigint,
+      ])
+    );
+  }
+
+  // Without a timeout ethers waits forever on a dropped transaction, so the
+  // node is asked about it periodically. Resolves with null once it no longer
+  // knows the hash, i.e. the transaction was dropped or replaced.
+  async waitForTransaction(
+    hash: string
+  ): Promise<ethers.TransactionReceipt | null> {
+    for (;;) {
+      try {
+        return await this.provider.waitForTransaction(hash, 1, TX_WAIT_TIMEOUT);
+      } catch (error) {
+        if (!ethers.isError(error, "TIMEOUT")) throw error;
+      }
+      if (!(await this.provider.getTransaction(hash))) return null;
+    }
+  }
+
+  getContractAddress(): string {
+    return this.contract.target as string;
+  }
+
+  // Accepts a hex address or an ENS name; returns null if it cannot resolve
+  async resolveAddress(nameOrAddress: string): Promise<string | null> {
+    if (ethers.isAddress(nameOrAddress)) {
+      return ethers.getAddress(nameOrAddress);
+    }
+    try {
+      return await this.provider.resolveName(nameOrAddress);
+    } catch (error) {
+      console.warn("Failed to resolve ENS name:", error);
+      return null;
+    }
+  }
+
   async getOrderCreationFee(): Promise<bigint> {
     try {
       const fee = await this.contract.orderCreationFee();
@@ -390,16 +767,91 @@ class OTCClient {
     }
   }
 
-  async getOrderExpiryInfo() {
+  // A revert mined through tx.wait() has no reason or revert data, so the fee
+  // sent is checked against the window around the fee now in effect instead
+  private async isFeeOutOfWindow(
+    error: unknown,
+    fee: bigint
+  ): Promise<boolean> {
+    if (!ethers.isError(error, "CALL_EXCEPTION") || !error.receipt) {
+      return false;
+    }
+    const { minFee, maxFee } = await this.getFeeQuote();
+    return fee < minFee || fee > maxFee;
+  }
+
+  // MIN_FEE_PERCENTAGE and MAX_FEE_PERCENTAGE are constants, so they are read
+  // once
+  async getFeeParameters(): Promise<FeeParameters> {
+    if (this.feeParameters) return this.feeParameters;
+    try {
+      const [minFeePercentage, maxFeePercentage] = await Promise.all([
+        this.contract.MIN_FEE_PERCENTAGE(),
+        this.contract.MAX_FEE_PERCENTAGE(),
+      ]);
+      this.feeParameters = {
+        minFeePercentage: Number(minFeePercentage),
+        maxFeePercentage: Number(maxFeePercentage),
+      };
+      return this.feeParameters;
+    } catch (error) {
+      console.warn("Failed to get fee parameters:", error);
+      return DEFAULT_FEE_PARAMETERS;
+    }
+  }
+
+  // Safety margin in percent added on top of the current fee
+  getFeeMargin(): number {
+    return readJSON<number>(this.storage, FEE_MARGIN_KEY) ?? DEFAULT_FEE_MARGIN;
+  }
+
+  setFeeMargin(margin: number) {
+    writeJSON(this.storage, FEE_MARGIN_KEY, margin);
+  }
+
+  async getFeeQuote(): Promise<FeeQuote> {
+    try {
+      const [currentFee, params] = await Promise.all([
+        this.contract.orderCreationFee() as Promise<bigint>,
+        this.getFeeParameters(),
+      ]);
+      return getFeeQuote(currentFee, params, this.getFeeMargin());
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to get order creation fee: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  // Fee changes seen in the indexed OrderCreated events, newest first
+  async getFeeHistory(limit = 10): Promise<FeeHistoryEntry[]> {
+    try {
+      const indexer = await this.getIndexer();
+      return getFeeHistory(await indexer.sync())
+        .reverse()
+        .slice(0, limit);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch fee history: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  // ORDER_EXPIRY and GRACE_PERIOD are constants, so they are read once
+  async getOrderExpiryInfo(): Promise<OrderTiming> {
+    if (this.timing) return this.timing;
     try {
       const [orderExpiry, gracePeriod] = await Promise.all([
         this.contract.ORDER_EXPIRY(),
         this.contract.GRACE_PERIOD(),
       ]);
-      return {
+      this.timing = {
         orderExpiry: Number(orderExpiry),
         gracePeriod: Number(gracePeriod),
       };
+      return this.timing;
     } catch (error) {
       console.warn("Failed to get order expiry info:", error);
       return {
@@ -409,25 +861,104 @@ class OTCClient {
     }
   }
 
+  async getCleanupQueue(): Promise<CleanupQueue> {
+    try {
+      const [firstOrderId, maxCleanupBatch] = await Promise.all([
+        this.contract.firstOrderId(),
+        this.contract.MAX_CLEANUP_BATCH(),
+      ]);
+      return {
+        firstOrderId: Number(firstOrderId),
+        maxCleanupBatch: Number(maxCleanupBatch),
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to get cleanup queue: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  async getOrderStatus(order: Order | IndexedOrder): Promise<OrderStatus> {
+    const [timing, queue] = await Promise.all([
+      this.getOrderExpiryInfo(),
+      this.getCleanupQueue().catch(() => undefined),
+    ]);
+    return getOrderStatus(order, timing, undefined, queue);
+  }
+
   async isOrderExpired(timestamp: number): Promise<boolean> {
-    const { orderExpiry } = await this.getOrderExpiryInfo();
-    return Date.now() / 1000 > timestamp + orderExpiry;
+    const timing = await this.getOrderExpiryInfo();
+    return Date.now() / 1000 > getExpiryTime({ createdAt: timestamp }, timing);
   }
 
   async isInGracePeriod(timestamp: number): Promise<boolean> {
-    const { orderExpiry, gracePeriod } = await this.getOrderExpiryInfo();
+    const timing = await this.getOrderExpiryInfo();
     const now = Date.now() / 1000;
     return (
-      now > timestamp + orderExpiry &&
-      now <= timestamp + orderExpiry + gracePeriod
+      now > getExpiryTime({ createdAt: timestamp }, timing) &&
+      now <= getGracePeriodEnd({ createdAt: timestamp }, timing)
     );
   }
 
-  async cleanupExpiredOrders() {
-    if (!this.signer) throw new Error("No signer connected");
+  // Reads the next cleanup batch and compares its reward with the gas cost.
+  // Works without a signer, since cleanup is permissionless.
+  async estimateCleanup(): Promise<CleanupEstimate> {
+    try {
+      const [timing, queue, nextOrderId, feeData] = await Promise.all([
+        this.getOrderExpiryInfo(),
+        this.getCleanupQueue(),
+        this.contract.nextOrderId(),
+        this.provider.getFeeData(),
+      ]);
+      const { firstOrderId, maxCleanupBatch } = queue;
+      const batchEndId = Math.min(
+        firstOrderId + maxCleanupBatch,
+        Number(nextOrderId)
+      );
+      const orderIds = Array.from(
+        { length: Math.max(batchEndId - firstOrderId, 0) },
+        (_, i) => firstOrderId + i
+      );
+      const { orders, reward, nextCleanableAt } = calculateCleanupReward(
+        await Promise.all(orderIds.map((orderId) => this.getOrder(orderId))),
+        timing
+      );
+
+      const gasLimit =
+        orders.length > 0
+          ? await this.contract.cleanupExpiredOrders
+              .estimateGas()
+              .catch(() => null)
+          : null;
+      const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice;
+
+      return {
+        firstOrderId,
+        orders,
+        reward,
+        nextCleanableAt,
+        gasLimit,
+        gasPrice,
+        gasCost:
+          gasLimit !== null && gasPrice !== null ? gasLimit * gasPrice : null,
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to estimate cleanup: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  async cleanupExpiredOrders(
+    onTransaction?: TransactionCallback
+  ): Promise<CleanupResult> {
+    if (!this.signer) throw new OTCError("NO_SIGNER");
 
     try {
       const tx = await this.contract.cleanupExpiredOrders();
+      onTransaction?.({ kind: "cleanup", hash: tx.hash });
       const receipt = await tx.wait();
 
       const cleanedEvents = receipt.logs.filter(
@@ -473,10 +1004,11 @@ class OTCClient {
         })),
       };
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Failed to cleanup expired orders: ${error.message}`);
-      }
-      throw error;
+      throw toOTCError(
+        error,
+        "clean up expired orders",
+        this.contract.interface
+      );
     }
   }
 }
@@ -0,0 +1,53 @@
+import { ethers } from "ethers";
+import { PriceSource, PriceToken } from "@/types";
+import { getPrice } from "@/services/pricing";
+
+const FACTORY_ABI = [
+  "function getPair(address tokenA, address tokenB) view returns (address)",
+];
+const PAIR_ABI = [
+  "function token0() view returns (address)",
+  "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+];
+
+// Spot price from a Uniswap V2 compatible pool. It ignores price impact, so
+// it is only a reference for thin pairs.
+class PoolPriceSource implements PriceSource {
+  readonly id = "pool";
+  readonly name = "On-chain pool";
+  private provider: ethers.Provider;
+  private factory: ethers.Contract;
+
+  constructor(provider: ethers.Provider, factoryAddress: string) {
+    this.provider = provider;
+    this.factory = new ethers.Contract(factoryAddress, FACTORY_ABI, provider);
+  }
+
+  async getPrice(base: PriceToken, quote: PriceToken): Promise<number | null> {
+    try {
+      const pairAddress: string = await this.factory.getPair(
+        base.address,
+        quote.address
+      );
+      if (pairAddress === ethers.ZeroAddress) return null;
+
+      const pair = new ethers.Contract(pairAddress, PAIR_ABI, this.provider);
+      const [token0, [reserve0, reserve1]] = await Promise.all([
+        pair.token0() as Promise<string>,
+        pair.getReserves() as Promise<[bigint, bigint, bigint]>,
+      ]);
+      const baseIsToken0 = token0.toLowerCase() === base.address.toLowerCase();
+      const [baseReserve, quoteReserve] = baseIsToken0
+        ? [reserve0, reserve1]
+        : [reserve1, reserve0];
+      if (baseReserve === BigInt(0)) return null;
+
+      return getPrice(baseReserve, quoteReserve, base.decimals, quote.decimals);
+    } catch (error) {
+      console.warn("Failed to read pool price:", error);
+      return null;
+    }
+  }
+}
+
+export default PoolPriceSource;
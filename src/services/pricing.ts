@@ -0,0 +1,131 @@
+import { ethers } from "ethers";
+import { Order, OrderBookLevel, OrderBookSide, TokenPair } from "@/types";
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+export function getOrderSide(
+  order: Order,
+  pair: TokenPair
+): OrderBookSide | null {
+  if (
+    sameAddress(order.sell.token, pair.base) &&
+    sameAddress(order.buy.token, pair.quote)
+  ) {
+    return "ask";
+  }
+  if (
+    sameAddress(order.sell.token, pair.quote) &&
+    sameAddress(order.buy.token, pair.base)
+  ) {
+    return "bid";
+  }
+  return null;
+}
+
+export function getPrice(
+  baseAmount: bigint,
+  quoteAmount: bigint,
+  baseDecimals: number,
+  quoteDecimals: number
+): number {
+  const base = Number(ethers.formatUnits(baseAmount, baseDecimals));
+  const quote = Number(ethers.formatUnits(quoteAmount, quoteDecimals));
+  return base > 0 ? quote / base : 0;
+}
+
+// Normalizes orders in either direction of the pair into bids and asks priced
+// in quote per base. Both sides are sorted best price first, and cumulative
+// depth accumulates outward from the best price.
+export function buildOrderBook(
+  orders: Order[],
+  pair: TokenPair,
+  baseDecimals: number,
+  quoteDecimals: number
+): { bids: OrderBookLevel[]; asks: OrderBookLevel[] } {
+  const bids: OrderBookLevel[] = [];
+  const asks: OrderBookLevel[] = [];
+
+  for (const order of orders) {
+    const side = getOrderSide(order, pair);
+    if (!side) continue;
+
+    const baseAmount = BigInt(
+      side === "ask" ? order.sell.amount : order.buy.amount
+    );
+    const quoteAmount = BigInt(
+      side === "ask" ? order.buy.amount : order.sell.amount
+    );
+    const level = {
+      order,
+      side,
+      price: getPrice(baseAmount, quoteAmount, baseDecimals, quoteDecimals),
+      baseAmount,
+      quoteAmount,
+      cumulativeBase: BigInt(0),
+    };
+    (side === "ask" ? asks : bids).push(level);
+  }
+
+  asks.sort((a, b) => a.price - b.price);
+  bids.sort((a, b) => b.price - a.price);
+
+  for (const levels of [asks, bids]) {
+    let cumulative = BigInt(0);
+    for (const level of levels) {
+      cumulative += level.baseAmount;
+      level.cumulativeBase = cumulative;
+    }
+  }
+
+  return { bids, asks };
+}
+
+// Unordered token pairs that have at least one order, in first-seen order
+export function getTradedPairs(orders: Order[]): TokenPair[] {
+  const pairs = new Map<string, TokenPair>();
+  for (const order of orders) {
+    const [base, quote] = [order.sell.token, order.buy.token].sort((a, b) =>
+      a.toLowerCase().localeCompare(b.toLowerCase())
+    );
+    const key = `${base.toLowerCase()}:${quote.toLowerCase()}`;
+    if (!pairs.has(key)) pairs.set(key, { base, quote });
+  }
+  return [...pairs.values()];
+}
+
+// Deviation from the reference price, in percent, above which the order
+// form asks for confirmation
+export const PRICE_DEVIATION_WARNING = 10;
+
+// Buy amount for a limit price given in buy tokens per sell token, or sell
+// tokens per buy token when inverted. Computed in bigint arithmetic from the
+// decimal string, rounding down; 0 for an unparseable or zero price.
+export function getBuyAmountForPrice(
+  sellAmount: bigint,
+  price: string,
+  sellDecimals: number,
+  buyDecimals: number,
+  inverted = false
+): bigint {
+  let scaledPrice: bigint;
+  try {
+    scaledPrice = ethers.parseUnits(price.trim() || "0", 18);
+  } catch {
+    return BigInt(0);
+  }
+  if (scaledPrice <= 0 || sellAmount <= 0) return BigInt(0);
+
+  const sellUnit = BigInt(10) ** BigInt(sellDecimals);
+  const buyUnit = BigInt(10) ** BigInt(buyDecimals);
+  return inverted
+    ? (sellAmount * ethers.WeiPerEther * buyUnit) / (scaledPrice * sellUnit)
+    : (sellAmount * scaledPrice * buyUnit) / (ethers.WeiPerEther * sellUnit);
+}
+
+export function getPriceDeviation(
+  price: number,
+  reference: number
+): number | null {
+  return reference > 0 ? ((price - reference) / reference) * 100 : null;
+}
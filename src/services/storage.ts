@@ -0,0 +1,46 @@
+interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export function createMemoryStorage(): KeyValueStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+// localStorage in the browser, an in-memory map during SSR and in Node
+export function getDefaultStorage(): KeyValueStorage {
+  if (typeof window !== "undefined" && window.localStorage) {
+    return window.localStorage;
+  }
+  return createMemoryStorage();
+}
+
+export function readJSON<T>(storage: KeyValueStorage, key: string): T | null {
+  try {
+    const raw = storage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch (error) {
+    console.warn(`Failed to read ${key} from storage:`, error);
+    return null;
+  }
+}
+
+export function writeJSON(
+  storage: KeyValueStorage,
+  key: string,
+  value: unknown
+) {
+  try {
+    storage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to write ${key} to storage:`, error);
+  }
+}
+
+export type { KeyValueStorage };
@@ -0,0 +1,371 @@
+import { ethers } from "ethers";
+import { TokenList, TokenMetadata } from "@/types";
+import {
+  KeyValueStorage,
+  getDefaultStorage,
+  readJSON,
+  writeJSON,
+} from "@/services/storage";
+import defaultTokenList from "@/services/tokenLists/default.tokenlist.json";
+
+// Deployed at the same address on mainnet, polygon, sepolia and most L2s
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+];
+const ERC20_METADATA_ABI = [
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+];
+// Pre-ERC-20 tokens such as MKR return bytes32 instead of string
+const BYTES32_METADATA_ABI = [
+  "function name() view returns (bytes32)",
+  "function symbol() view returns (bytes32)",
+];
+
+const METADATA_FIELDS = ["name", "symbol", "decimals"] as const;
+const CACHE_KEY_PREFIX = "otc-swap:tokens";
+const IMPORTED_LISTS_KEY = "otc-swap:token-lists";
+const CUSTOM_TOKENS_KEY = "otc-swap:custom-tokens";
+const RECENT_TOKENS_KEY_PREFIX = "otc-swap:recent-tokens";
+const MAX_RECENT_TOKENS = 8;
+
+interface TokenRegistryOptions {
+  storage?: KeyValueStorage;
+  // Milliseconds to wait for more lookups before sending a batch
+  batchDelay?: number;
+}
+
+type PendingLookup = {
+  resolve: (token: TokenMetadata) => void;
+  reject: (error: unknown) => void;
+};
+
+const erc20 = new ethers.Interface(ERC20_METADATA_ABI);
+const erc20Bytes32 = new ethers.Interface(BYTES32_METADATA_ABI);
+
+function decodeText(field: "name" | "symbol", data: string): string {
+  try {
+    return erc20.decodeFunctionResult(field, data)[0];
+  } catch {
+    return ethers.decodeBytes32String(
+      erc20Bytes32.decodeFunctionResult(field, data)[0]
+    );
+  }
+}
+
+const tokenKey = (chainId: number, address: string) =>
+  `${chainId}:${address.toLowerCase()}`;
+
+class TokenRegistry {
+  private provider: ethers.Provider;
+  private storage: KeyValueStorage;
+  private batchDelay: number;
+  private chainId: Promise<number>;
+  private resolvedChainId: number | null = null;
+  private tokens = new Map<string, TokenMetadata>();
+  // Tokens from token lists or explicitly imported by the user, as opposed to
+  // anything merely looked up because an order referenced it
+  private listed = new Set<string>();
+  private inFlight = new Map<string, Promise<TokenMetadata>>();
+  private queue = new Map<string, PendingLookup[]>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private multicall: Promise<boolean> | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor(provider: ethers.Provider, options: TokenRegistryOptions = {}) {
+    this.provider = provider;
+    this.storage = options.storage ?? getDefaultStorage();
+    this.batchDelay = options.batchDelay ?? 10;
+    this.chainId = provider
+      .getNetwork()
+      .then(({ chainId }) => (this.resolvedChainId = Number(chainId)));
+    this.chainId
+      .then((chainId) => this.hydrate(chainId))
+      .catch((error) => console.warn("Failed to load token cache:", error));
+  }
+
+  async getChainId(): Promise<number> {
+    return this.chainId;
+  }
+
+  async getToken(address: string): Promise<TokenMetadata> {
+    const key = tokenKey(await this.chainId, address);
+
+    const cached = this.tokens.get(key);
+    if (cached) return cached;
+
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = new Promise<TokenMetadata>((resolve, reject) => {
+        this.queue.set(key, [
+          ...(this.queue.get(key) ?? []),
+          { resolve, reject },
+        ]);
+        this.scheduleFlush();
+      }).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+    return pending;
+  }
+
+  getTokens(tokenAddresses: string[]): Promise<TokenMetadata[]> {
+    return Promise.all(tokenAddresses.map((address) => this.getToken(address)));
+  }
+
+  // Synchronous lookup for render paths; undefined until resolved once
+  peekToken(address: string): TokenMetadata | undefined {
+    if (this.resolvedChainId === null) return undefined;
+    return this.tokens.get(tokenKey(this.resolvedChainId, address));
+  }
+
+  async listTokens(): Promise<TokenMetadata[]> {
+    const chainId = await this.chainId;
+    return [...this.listed]
+      .map((key) => this.tokens.get(key)!)
+      .filter((token) => token.chainId === chainId);
+  }
+
+  isListed(token: TokenMetadata): boolean {
+    return this.listed.has(tokenKey(token.chainId, token.address));
+  }
+
+  // Adds a token the user imported by address to the listed set
+  addCustomToken(token: TokenMetadata) {
+    const key = tokenKey(token.chainId, token.address);
+    this.tokens.set(key, token);
+    this.listed.add(key);
+    const custom = readJSON<TokenMetadata[]>(this.storage, CUSTOM_TOKENS_KEY);
+    writeJSON(this.storage, CUSTOM_TOKENS_KEY, [
+      ...(custom ?? []).filter(
+        (existing) => tokenKey(existing.chainId, existing.address) !== key
+      ),
+      token,
+    ]);
+    this.notify();
+  }
+
+  async getRecentTokens(): Promise<TokenMetadata[]> {
+    const chainId = await this.chainId;
+    const recent =
+      readJSON<string[]>(this.storage, this.getRecentKey(chainId)) ?? [];
+    return recent
+      .map((address) => this.tokens.get(tokenKey(chainId, address)))
+      .filter((token): token is TokenMetadata => !!token);
+  }
+
+  async addRecentToken(address: string) {
+    const chainId = await this.chainId;
+    const key = this.getRecentKey(chainId);
+    const recent = readJSON<string[]>(this.storage, key) ?? [];
+    writeJSON(
+      this.storage,
+      key,
+      [
+        address,
+        ...recent.filter((a) => a.toLowerCase() !== address.toLowerCase()),
+      ].slice(0, MAX_RECENT_TOKENS)
+    );
+  }
+
+  // Registers every token in a Uniswap-style list; tokens for other chains
+  // are kept so switching networks does not need a reload
+  loadTokenList(list: TokenList) {
+    for (const token of list.tokens) {
+      if (!ethers.isAddress(token.address)) continue;
+      const key = tokenKey(token.chainId, token.address);
+      this.listed.add(key);
+      this.tokens.set(key, {
+        chainId: token.chainId,
+        address: ethers.getAddress(token.address),
+        name: token.name,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        logoURI: token.logoURI,
+      });
+    }
+    this.notify();
+  }
+
+  importTokenList(list: TokenList) {
+    if (!Array.isArray(list?.tokens)) {
+      throw new Error("Invalid token list: missing tokens");
+    }
+    this.loadTokenList(list);
+    const imported =
+      readJSON<TokenList[]>(this.storage, IMPORTED_LISTS_KEY) ?? [];
+    writeJSON(this.storage, IMPORTED_LISTS_KEY, [
+      ...imported.filter((existing) => existing.name !== list.name),
+      list,
+    ]);
+  }
+
+  getImportedTokenLists(): TokenList[] {
+    return readJSON<TokenList[]>(this.storage, IMPORTED_LISTS_KEY) ?? [];
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify() {
+    for (const listener of this.listeners) listener();
+  }
+
+  private hydrate(chainId: number) {
+    this.loadTokenList(defaultTokenList as TokenList);
+    for (const list of this.getImportedTokenLists()) {
+      this.loadTokenList(list);
+    }
+    for (const token of readJSON<TokenMetadata[]>(
+      this.storage,
+      CUSTOM_TOKENS_KEY
+    ) ?? []) {
+      const key = tokenKey(token.chainId, token.address);
+      this.tokens.set(key, token);
+      this.listed.add(key);
+    }
+    const cached =
+      readJSON<TokenMetadata[]>(this.storage, this.getCacheKey(chainId)) ?? [];
+    for (const token of cached) {
+      const key = tokenKey(token.chainId, token.address);
+      if (!this.tokens.has(key)) this.tokens.set(key, token);
+    }
+    this.notify();
+  }
+
+  private getCacheKey(chainId: number) {
+    return `${CACHE_KEY_PREFIX}:${chainId}`;
+  }
+
+  private getRecentKey(chainId: number) {
+    return `${RECENT_TOKENS_KEY_PREFIX}:${chainId}`;
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, this.batchDelay);
+  }
+
+  private async flush() {
+    const batch = this.queue;
+    this.queue = new Map();
+    if (batch.size === 0) return;
+
+    const chainId = await this.chainId;
+    const addresses = [...batch.keys()].map((key) => key.split(":")[1]);
+    let results: (TokenMetadata | Error)[];
+    try {
+      results = (await this.supportsMulticall())
+        ? await this.fetchWithMulticall(chainId, addresses)
+        : await Promise.all(
+            addresses.map((address) =>
+              this.fetchOne(chainId, address).catch((error) => error as Error)
+            )
+          );
+    } catch (error) {
+      results = addresses.map(() => error as Error);
+    }
+
+    const fetched: TokenMetadata[] = [];
+    results.forEach((result, i) => {
+      const lookups = batch.get(tokenKey(chainId, addresses[i])) ?? [];
+      if (result instanceof Error) {
+        lookups.forEach(({ reject }) => reject(result));
+        return;
+      }
+      this.tokens.set(tokenKey(chainId, addresses[i]), result);
+      fetched.push(result);
+      lookups.forEach(({ resolve }) => resolve(result));
+    });
+
+    if (fetched.length > 0) {
+      const key = this.getCacheKey(chainId);
+      const cached = readJSON<TokenMetadata[]>(this.storage, key) ?? [];
+      writeJSON(this.storage, key, [...cached, ...fetched]);
+      this.notify();
+    }
+  }
+
+  private supportsMulticall(): Promise<boolean> {
+    if (!this.multicall) {
+      this.multicall = this.provider
+        .getCode(MULTICALL3_ADDRESS)
+        .then((code) => code !== "0x")
+        .catch(() => false);
+    }
+    return this.multicall;
+  }
+
+  private async fetchWithMulticall(
+    chainId: number,
+    addresses: string[]
+  ): Promise<(TokenMetadata | Error)[]> {
+    const multicall = new ethers.Contract(
+      MULTICALL3_ADDRESS,
+      MULTICALL3_ABI,
+      this.provider
+    );
+    const calls = addresses.flatMap((address) =>
+      METADATA_FIELDS.map((field) => ({
+        target: address,
+        allowFailure: true,
+        callData: erc20.encodeFunctionData(field),
+      }))
+    );
+    const responses: { success: boolean; returnData: string }[] =
+      await multicall.aggregate3.staticCall(calls);
+
+    return addresses.map((address, i) => {
+      const [name, symbol, decimals] = responses.slice(
+        i * METADATA_FIELDS.length,
+        (i + 1) * METADATA_FIELDS.length
+      );
+      if (!symbol.success || !decimals.success) {
+        return new Error(`${address} is not an ERC-20 token`);
+      }
+      try {
+        return {
+          chainId,
+          address: ethers.getAddress(address),
+          name: name.success ? decodeText("name", name.returnData) : "",
+          symbol: decodeText("symbol", symbol.returnData),
+          decimals: Number(
+            erc20.decodeFunctionResult("decimals", decimals.returnData)[0]
+          ),
+        };
+      } catch (error) {
+        return error as Error;
+      }
+    });
+  }
+
+  private async fetchOne(
+    chainId: number,
+    address: string
+  ): Promise<TokenMetadata> {
+    const [name, symbol, decimals] = await Promise.all(
+      METADATA_FIELDS.map((field) =>
+        this.provider.call({
+          to: address,
+          data: erc20.encodeFunctionData(field),
+        })
+      )
+    );
+    return {
+      chainId,
+      address: ethers.getAddress(address),
+      name: decodeText("name", name),
+      symbol: decodeText("symbol", symbol),
+      decimals: Number(erc20.decodeFunctionResult("decimals", decimals)[0]),
+    };
+  }
+}
+
+export type { TokenRegistryOptions };
+export default TokenRegistry;
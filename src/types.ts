@@ -13,11 +13,47 @@ interface FillOrderParams {
 }
 
 interface GetActiveOrdersParams {
-  fromBlock?: number;
-  toBlock?: number | 'latest';
   makerAddress?: string | null;
   sellToken?: string | null;
   buyToken?: string | null;
+  // Applied to the whole filtered book before the page is cut. Price sorting
+  // needs both tokens, size sorting the sell token.
+  sort?: OrderSort;
+  offset?: number;
+  // All remaining orders when omitted
+  limit?: number;
+}
+
+interface Pagination {
+  offset: number;
+  total: number;
+  hasMore: boolean;
+  nextOffset: number;
+}
+
+interface ActiveOrdersPage {
+  orders: Order[];
+  pagination: Pagination;
+}
+
+// "mine" keeps orders whose taker is the connected account
+type OrderAccess = "any" | "public" | "mine";
+
+// age: newest first, expiry: soonest first, price: cheapest for the taker
+// first, size: largest sell amount first
+type OrderSort = "age" | "expiry" | "price" | "size";
+
+// Active Orders view state, mirrored in the URL query
+interface OrderFilters {
+  sellToken: string | null;
+  buyToken: string | null;
+  maker: string | null;
+  access: OrderAccess;
+  // Minimum sell amount in sell token units; needs sellToken
+  minSize: string | null;
+  // Only orders expiring within this many seconds
+  expiresWithin: number | null;
+  sort: OrderSort;
 }
 
 interface TokenDetails {
@@ -44,4 +80,420 @@ interface Order {
   isActive: boolean;
 }
 
-export type { Order, OrderParams, FillOrderParams, GetActiveOrdersParams, TokenDetails };
+interface EventMeta {
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+}
+
+type OrderEvent = EventMeta &
+  (
+    | {
+        name: "OrderCreated";
+        orderId: number;
+        maker: string;
+        taker: string;
+        sellToken: string;
+        sellAmount: string;
+        buyToken: string;
+        buyAmount: string;
+        timestamp: number;
+        orderCreationFee: string;
+      }
+    | {
+        name: "OrderFilled";
+        orderId: number;
+        maker: string;
+        taker: string;
+        timestamp: number;
+      }
+    | {
+        name: "OrderCanceled" | "OrderCleanedUp";
+        orderId: number;
+        maker: string;
+        timestamp: number;
+      }
+    | {
+        name: "RetryOrder";
+        oldOrderId: number;
+        newOrderId: number;
+        maker: string;
+        tries: number;
+        timestamp: number;
+      }
+  );
+
+interface OrderLifecycleEvent {
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+interface IndexedOrder extends Order {
+  tries: number;
+  created: OrderLifecycleEvent;
+  retriedFrom?: number;
+  filled?: OrderLifecycleEvent & { taker: string };
+  canceled?: OrderLifecycleEvent;
+  cleanedUp?: OrderLifecycleEvent;
+  retriedAs?: number;
+}
+
+interface OrderBookSnapshot {
+  version: number;
+  fromBlock: number;
+  lastSyncedBlock: number;
+  orders: Record<string, IndexedOrder>;
+}
+
+interface OrderBookUpdate {
+  orders: Order[];
+  added: Order[];
+  removed: Order[];
+}
+
+interface TokenPair {
+  base: string;
+  quote: string;
+}
+
+type OrderBookSide = "bid" | "ask";
+
+interface OrderBookLevel {
+  order: Order;
+  side: OrderBookSide;
+  // Quote tokens per base token, decimals applied
+  price: number;
+  baseAmount: bigint;
+  quoteAmount: bigint;
+  cumulativeBase: bigint;
+}
+
+interface TokenMetadata {
+  chainId: number;
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  logoURI?: string;
+}
+
+// Subset of the Uniswap token list schema (https://tokenlists.org)
+interface TokenList {
+  name: string;
+  timestamp?: string;
+  version?: { major: number; minor: number; patch: number };
+  logoURI?: string;
+  tokens: TokenMetadata[];
+}
+
+type OrderHistoryEventName = OrderEvent["name"] | "CleanupError";
+
+interface OrderHistoryEntry extends OrderLifecycleEvent {
+  name: OrderHistoryEventName;
+  orderId: number;
+  logIndex: number;
+  taker?: string;
+  newOrderId?: number;
+  tries?: number;
+  reason?: string;
+}
+
+interface OrderHistory {
+  orderId: number;
+  // Every ID the order has had, oldest first, linked by RetryOrder events
+  orderIds: number[];
+  order: IndexedOrder | null;
+  entries: OrderHistoryEntry[];
+}
+
+// Derived from lifecycle events plus the contract's ORDER_EXPIRY and
+// GRACE_PERIOD. Active orders can be filled; the maker can cancel until the
+// grace period ends. After that, orders within the next cleanup batch are
+// AwaitingCleanup and those queued behind it are Expired.
+type OrderStatus =
+  | "Active"
+  | "InGracePeriod"
+  | "AwaitingCleanup"
+  | "Expired"
+  | "Filled"
+  | "Canceled"
+  | "CleanedUp"
+  | "Retried";
+
+interface OrderTiming {
+  orderExpiry: number;
+  gracePeriod: number;
+}
+
+// MIN_FEE_PERCENTAGE and MAX_FEE_PERCENTAGE bound the fee the contract accepts
+// relative to orderCreationFee at the time the transaction is mined
+interface FeeParameters {
+  minFeePercentage: number;
+  maxFeePercentage: number;
+}
+
+interface FeeQuote {
+  currentFee: bigint;
+  minFee: bigint;
+  maxFee: bigint;
+  // Fee to send: currentFee plus the safety margin, capped at maxFee
+  fee: bigint;
+  margin: number;
+}
+
+interface FeeHistoryEntry {
+  orderId: number;
+  timestamp: number;
+  fee: string;
+  // Percentage change from the previous order's fee, null for the first
+  change: number | null;
+}
+
+interface CleanupQueue {
+  // Oldest order ID still stored by the contract
+  firstOrderId: number;
+  maxCleanupBatch: number;
+}
+
+// Mirrors OTCSwap.OrderStatus; expiry is not part of the stored status
+type OnChainOrderStatus = "Active" | "Filled" | "Canceled";
+
+// The orders(uint256) getter output. The contract keeps filled and canceled
+// orders until cleanup, and zeroes the struct once an order is deleted.
+interface OnChainOrder {
+  orderId: number;
+  maker: string;
+  taker: string;
+  sellToken: string;
+  sellAmount: bigint;
+  buyToken: string;
+  buyAmount: bigint;
+  timestamp: number;
+  status: OnChainOrderStatus;
+  orderCreationFee: bigint;
+  tries: number;
+}
+
+// The batch the next cleanupExpiredOrders call would process
+interface CleanupEstimate {
+  firstOrderId: number;
+  orders: OnChainOrder[];
+  // Sum of the batch's creation fees. An upper bound: Active orders whose
+  // tokens cannot be returned are retried instead and pay nothing.
+  reward: bigint;
+  // When the order blocking the queue becomes cleanable, null if none
+  nextCleanableAt: number | null;
+  gasLimit: bigint | null;
+  gasPrice: bigint | null;
+  gasCost: bigint | null;
+}
+
+// Orders chosen to fill up to a target size, see planBatchFill
+interface BatchFillPlan {
+  orders: Order[];
+  // Received from the makers, in receive token units
+  totalReceive: bigint;
+  // Paid to the makers, in pay token units
+  totalPay: bigint;
+  // Pay tokens per receive token, 0 when nothing was selected
+  averagePrice: number;
+  // False when the book cannot cover the target
+  complete: boolean;
+}
+
+interface CleanupResult {
+  txHash: string;
+  cleanedOrders: { orderId: bigint; maker: string; timestamp: number }[];
+  errors: { orderId: bigint; reason: string; timestamp: number }[];
+  retries: {
+    oldOrderId: bigint;
+    newOrderId: bigint;
+    maker: string;
+    tries: number;
+    timestamp: number;
+  }[];
+  feesDistributed: { recipient: string; amount: bigint; timestamp: number }[];
+}
+
+type PriceToken = Pick<TokenMetadata, "address" | "decimals">;
+
+// Reference prices for the order form. getPrice returns quote tokens per
+// base token, or null when the source has no price for the pair.
+interface PriceSource {
+  id: string;
+  name: string;
+  getPrice(base: PriceToken, quote: PriceToken): Promise<number | null>;
+}
+
+// Where the OTC contract lives on one chain, see src/deployments.ts
+interface Deployment {
+  chainId: number;
+  name: string;
+  contract: string;
+  // Deployment block, the lower bound for log scans
+  startBlock?: number;
+  // Uniswap V2 compatible factory used for on-chain reference prices
+  priceFactory?: string;
+  explorerUrl?: string;
+  nativeCurrency: string;
+}
+
+type ApprovalMode = "exact" | "unlimited";
+
+interface TokenAllowance {
+  token: string;
+  allowance: bigint;
+  unlimited: boolean;
+  // EIP-2612 permit() support
+  supportsPermit: boolean;
+}
+
+type TransactionKind =
+  | "approve"
+  | "resetApproval"
+  | "revoke"
+  | "createOrder"
+  | "fillOrder"
+  | "cancelOrder"
+  | "cleanup";
+
+// Dropped covers transactions the node forgot, including replaced ones
+type TransactionState = "pending" | "confirmed" | "failed" | "dropped";
+
+// A transaction as soon as the wallet has broadcast it
+interface TransactionStep {
+  kind: TransactionKind;
+  hash: string;
+  // Token being approved or revoked
+  token?: string;
+}
+
+type TransactionCallback = (step: TransactionStep) => void;
+
+interface TrackedTransaction extends TransactionStep {
+  chainId: number;
+  // The user action this transaction belongs to, e.g. "Fill order #12"
+  action: string;
+  state: TransactionState;
+  submittedAt: number;
+}
+
+type OTCErrorCode =
+  | "NO_SIGNER"
+  | "USER_REJECTED"
+  | "INSUFFICIENT_FUNDS"
+  | "NETWORK"
+  | "ORDER_NOT_FOUND"
+  | "ORDER_NOT_ACTIVE"
+  | "ORDER_MISMATCH"
+  | "ORDER_EXPIRED"
+  | "NOT_AUTHORIZED"
+  | "NOT_MAKER"
+  | "GRACE_PERIOD_EXPIRED"
+  | "INVALID_TOKEN"
+  | "SAME_TOKEN"
+  | "INVALID_AMOUNT"
+  | "INSUFFICIENT_BALANCE"
+  | "INSUFFICIENT_ALLOWANCE"
+  | "FEE_TOO_LOW"
+  | "FEE_TOO_HIGH"
+  | "FEE_TRANSFER_FAILED"
+  | "MAX_RETRIES_REACHED"
+  | "TOKEN_TRANSFER_FAILED"
+  | "REENTRANT_CALL"
+  | "UNKNOWN";
+
+interface TokenRequirement {
+  token: string;
+  amount: bigint;
+  balance: bigint;
+  allowance: bigint;
+  // Approval transactions sent before the main transaction
+  approvals: number;
+}
+
+interface TransactionSimulation {
+  kind: TransactionKind;
+  // Null while an approval is still needed, since the call would revert
+  gasLimit: bigint | null;
+  approvalGas: bigint | null;
+  gasPrice: bigint | null;
+  // Native value sent with the transaction, i.e. the order creation fee
+  value: bigint;
+  totalCost: bigint | null;
+  nativeBalance: bigint;
+  tokens: TokenRequirement[];
+  // Predicted failure, null if the transaction is expected to succeed
+  error: Error | null;
+}
+
+// Repricing cancels the old order and creates a new one, see
+// simulateReplaceOrder
+interface ReplaceOrderSimulation {
+  cancel: TransactionSimulation;
+  // Tokens returned by the cancel count towards its balance
+  create: TransactionSimulation;
+  // Gas for both plus the new order creation fee, null if any part is unknown
+  totalCost: bigint | null;
+}
+
+interface AccountOrders {
+  // Orders the account created, including retried copies, newest first
+  made: IndexedOrder[];
+  // Other makers' orders the account filled, newest first
+  filled: IndexedOrder[];
+}
+
+export type {
+  Order,
+  OrderParams,
+  FillOrderParams,
+  GetActiveOrdersParams,
+  Pagination,
+  ActiveOrdersPage,
+  OrderAccess,
+  OrderSort,
+  OrderFilters,
+  TokenDetails,
+  EventMeta,
+  OrderEvent,
+  OrderLifecycleEvent,
+  IndexedOrder,
+  OrderBookSnapshot,
+  OrderBookUpdate,
+  TokenPair,
+  OrderBookSide,
+  OrderBookLevel,
+  TokenMetadata,
+  TokenList,
+  OrderHistoryEventName,
+  OrderHistoryEntry,
+  OrderHistory,
+  OrderStatus,
+  OrderTiming,
+  FeeParameters,
+  FeeQuote,
+  FeeHistoryEntry,
+  CleanupQueue,
+  OnChainOrderStatus,
+  OnChainOrder,
+  CleanupEstimate,
+  CleanupResult,
+  BatchFillPlan,
+  Deployment,
+  PriceToken,
+  PriceSource,
+  OTCErrorCode,
+  TokenRequirement,
+  TransactionSimulation,
+  ReplaceOrderSimulation,
+  AccountOrders,
+  ApprovalMode,
+  TokenAllowance,
+  TransactionKind,
+  TransactionState,
+  TransactionStep,
+  TransactionCallback,
+  TrackedTransaction,
+};
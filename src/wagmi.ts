@@ -8,6 +8,7 @@ import {
   polygon,
   sepolia,
 } from "wagmi/chains";
+import { http } from "wagmi";
 
 const hardhat = {
   id: 1337,
@@ -22,5 +23,13 @@ export const config = getDefaultConfig({
   appName: "otc-swap",
   projectId: "04e7cc6f74497e69736ef1bf0d481f5b",
   chains: [mainnet, polygon, sepolia, hardhat],
+  // Read-only browsing goes through these; unset falls back to the chain's
+  // public RPC
+  transports: {
+    [mainnet.id]: http(process.env.NEXT_PUBLIC_RPC_URL_1),
+    [polygon.id]: http(process.env.NEXT_PUBLIC_RPC_URL_137),
+    [sepolia.id]: http(process.env.NEXT_PUBLIC_RPC_URL_11155111),
+    [hardhat.id]: http(),
+  },
   ssr: true,
 });